@@ -12,6 +12,10 @@ const BuildingPalette = dynamic(() => import('@/components/game/BuildingPalette'
 const MiniMap = dynamic(() => import('@/components/game/MiniMap').then(mod => mod.MiniMap), { ssr: false })
 const TimeControls = dynamic(() => import('@/components/game/TimeControls').then(mod => mod.TimeControls), { ssr: false })
 const OverlayControls = dynamic(() => import('@/components/game/OverlayControls').then(mod => mod.OverlayControls), { ssr: false })
+const SaveLoadDialog = dynamic(() => import('@/components/ui/SaveLoadDialog').then(mod => mod.SaveLoadDialog), { ssr: false })
+const BulldozeDialog = dynamic(() => import('@/components/ui/BulldozeDialog').then(mod => mod.BulldozeDialog), { ssr: false })
+const AutosaveRecoveryDialog = dynamic(() => import('@/components/ui/AutosaveRecoveryDialog').then(mod => mod.AutosaveRecoveryDialog), { ssr: false })
+const Notifications = dynamic(() => import('@/components/ui/Notifications').then(mod => mod.Notifications), { ssr: false })
 
 import { LoadingScreen } from '@/components/ui/LoadingScreen'
 
@@ -50,6 +54,12 @@ export default function Home() {
             <OverlayControls />
           </div>
         </div>
+
+        {/* Dialogs & Notifications */}
+        <SaveLoadDialog />
+        <BulldozeDialog />
+        <AutosaveRecoveryDialog />
+        <Notifications />
       </Suspense>
     </main>
   )
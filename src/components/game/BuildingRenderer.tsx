@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useRef, Suspense } from 'react'
+import { useEffect, useMemo, useRef, Suspense } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { Box, Cylinder, useGLTF } from '@react-three/drei'
 import * as THREE from 'three'
@@ -15,6 +15,27 @@ DEFAULT_BUILDINGS.forEach((building) => {
   useGLTF.preload(building.modelPath)
 })
 
+// Seconds a building takes to rise into its new level
+const CONSTRUCTION_TIME = 2
+
+// Abandoned buildings are drawn greyed out
+const ABANDONED_TINT = new THREE.Color('#8a8a8a')
+
+// One greyed copy per model material, shared by every abandoned building
+const abandonedMaterials = new WeakMap<THREE.Material, THREE.Material>()
+
+function getAbandonedMaterial(material: THREE.Material): THREE.Material {
+  let tinted = abandonedMaterials.get(material)
+  if (!tinted) {
+    tinted = material.clone()
+    if ('color' in tinted && tinted.color instanceof THREE.Color) {
+      tinted.color.multiply(ABANDONED_TINT)
+    }
+    abandonedMaterials.set(material, tinted)
+  }
+  return tinted
+}
+
 // GLTF Model building component with construction animation
 function GLTFBuilding({
   building,
@@ -38,12 +59,34 @@ function GLTFBuilding({
   const scaleRef = useRef(hasUtilities ? 1 : 0.3)
   const targetScale = hasUtilities ? 1 : 0.3
   
+  // Construction progress, restarted when the building changes level
+  const scaffoldRef = useRef<THREE.Mesh>(null)
+  const constructionRef = useRef(1)
+  const definitionRef = useRef(definition.id)
+  
+  useEffect(() => {
+    if (definitionRef.current === definition.id) return
+    definitionRef.current = definition.id
+    constructionRef.current = 0
+  }, [definition.id])
+  
   // Animate scale
   useFrame((_, delta) => {
+    constructionRef.current = Math.min(constructionRef.current + delta / CONSTRUCTION_TIME, 1)
+    const construction = constructionRef.current
+    
+    if (scaffoldRef.current) {
+      scaffoldRef.current.visible = construction < 1
+    }
+    
     if (groupRef.current) {
-      // Smooth scale transition
+      // Smooth scale transition; a new level rises out of the ground
       scaleRef.current += (targetScale - scaleRef.current) * delta * 3
-      groupRef.current.scale.setScalar(scaleRef.current)
+      groupRef.current.scale.set(
+        scaleRef.current,
+        scaleRef.current * (0.1 + 0.9 * construction),
+        scaleRef.current
+      )
       
       // Ensure all materials are fully opaque (not transparent)
       groupRef.current.traverse((child) => {
@@ -83,15 +126,20 @@ function GLTFBuilding({
                 mat.opacity = 1.0
               }
             })
+            
+            // Swap in greyed copies so other buildings sharing the model keep their colors
+            if (building.abandoned) {
+              const tinted = materials.map(getAbandonedMaterial)
+              child.material = Array.isArray(child.material) ? tinted : tinted[0]
+            }
           }
         }
       })
       return clone
-    }, [scene])
+    }, [scene, building.abandoned])
 
     return (
       <group
-        ref={groupRef}
         position={[
           worldPos.x + (width * TILE_SIZE) / 2,
           0,
@@ -99,7 +147,15 @@ function GLTFBuilding({
         ]}
         rotation={[0, rotationY, 0]}
       >
-        <primitive object={clonedScene} />
+        <group ref={groupRef}>
+          <primitive object={clonedScene} />
+        </group>
+        
+        {/* Scaffolding while a new level goes up */}
+        <mesh ref={scaffoldRef} position={[0, 0.5 + building.level * 0.25, 0]} visible={false}>
+          <boxGeometry args={[width * TILE_SIZE * 0.95, 1 + building.level * 0.5, depth * TILE_SIZE * 0.95]} />
+          <meshBasicMaterial color="#f59e0b" wireframe />
+        </mesh>
       </group>
     )
   } catch (error) {
@@ -0,0 +1,121 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { useGLTF } from '@react-three/drei'
+import * as THREE from 'three'
+import { useCityStore } from '@/stores/cityStore'
+import { SimulationManager } from '@/game/simulation/SimulationManager'
+import { FireSystem } from '@/game/simulation/FireSystem'
+import { TILE_SIZE } from '@/lib/constants'
+import { gridToWorld, gridPositionToKey } from '@/lib/utils'
+import { GridPosition } from '@/types/game.types'
+import { ServiceVehicle } from './ServiceVehicle'
+
+const FIRETRUCK_MODEL = '/models/car/firetruck.glb'
+const RUBBLE_MODELS = [
+  '/models/car/debris-plate-a.glb',
+  '/models/car/debris-plate-b.glb',
+  '/models/car/debris-door.glb',
+]
+
+useGLTF.preload(FIRETRUCK_MODEL)
+RUBBLE_MODELS.forEach((path) => {
+  useGLTF.preload(path)
+})
+
+function tileCenter(position: GridPosition, y: number): THREE.Vector3 {
+  const worldPos = gridToWorld(position)
+  return new THREE.Vector3(worldPos.x + TILE_SIZE / 2, y, worldPos.z + TILE_SIZE / 2)
+}
+
+function getFireSystem(): FireSystem | undefined {
+  return SimulationManager.getInstance().get<FireSystem>('fire')
+}
+
+// Flickering flames over a burning tile, taller as the fire grows
+function Flame({ position, fire }: { position: GridPosition; fire: number }) {
+  const meshRef = useRef<THREE.Mesh>(null)
+  const center = useMemo(() => tileCenter(position, 0), [position])
+  const offset = (position.x * 7 + position.z * 13) % 10
+  const height = 0.4 + (fire / 100) * 0.8
+
+  useFrame(({ clock }) => {
+    if (!meshRef.current) return
+    const flicker = 1 + Math.sin(clock.elapsedTime * 12 + offset) * 0.15
+    meshRef.current.scale.set(1, flicker, 1)
+  })
+
+  return (
+    <mesh ref={meshRef} position={[center.x, height / 2 + 0.3, center.z]}>
+      <coneGeometry args={[TILE_SIZE * 0.35, height, 6]} />
+      <meshStandardMaterial
+        color="#f97316"
+        emissive="#f97316"
+        emissiveIntensity={2}
+        transparent
+        opacity={0.85}
+      />
+    </mesh>
+  )
+}
+
+// Debris left on a burned-out lot until it is bulldozed
+function Rubble({ position }: { position: GridPosition }) {
+  const modelPath = RUBBLE_MODELS[(position.x + position.z) % RUBBLE_MODELS.length]
+  const { scene } = useGLTF(modelPath)
+  const clonedScene = useMemo(() => scene.clone(), [scene])
+  const center = useMemo(() => tileCenter(position, 0.02), [position])
+
+  return (
+    <group position={center}>
+      <mesh position={[0, 0.02, 0]}>
+        <boxGeometry args={[TILE_SIZE * 0.9, 0.04, TILE_SIZE * 0.9]} />
+        <meshStandardMaterial color="#3f3f46" />
+      </mesh>
+      <primitive object={clonedScene} scale={[0.4, 0.4, 0.4]} position={[0, 0.04, 0]} />
+    </group>
+  )
+}
+
+/**
+ * Burning buildings, rubble and fire trucks on their way
+ */
+export function FireRenderer() {
+  const tiles = useCityStore((state) => state.tiles)
+  const [truckIds, setTruckIds] = useState<string[]>([])
+
+  const { flames, rubble } = useMemo(() => {
+    const flames: { position: GridPosition; fire: number }[] = []
+    const rubble: GridPosition[] = []
+    tiles.forEach((tile) => {
+      if (tile.fire > 0) flames.push({ position: tile.position, fire: tile.fire })
+      if (tile.type === 'rubble') rubble.push(tile.position)
+    })
+    return { flames, rubble }
+  }, [tiles])
+
+  // Trucks live in the fire system, not the store; pick up new and finished ones
+  useFrame(() => {
+    const ids = getFireSystem()?.getState().trucks.map(t => t.id) ?? []
+    if (ids.join() !== truckIds.join()) setTruckIds(ids)
+  })
+
+  return (
+    <group name="fires">
+      {flames.map(({ position, fire }) => (
+        <Flame key={gridPositionToKey(position)} position={position} fire={fire} />
+      ))}
+      {rubble.map((position) => (
+        <Rubble key={gridPositionToKey(position)} position={position} />
+      ))}
+      {truckIds.map((id) => (
+        <ServiceVehicle
+          key={id}
+          modelPath={FIRETRUCK_MODEL}
+          getRoute={() => getFireSystem()?.getState().trucks.find(t => t.id === id)}
+        />
+      ))}
+    </group>
+  )
+}
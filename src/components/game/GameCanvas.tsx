@@ -16,8 +16,13 @@ import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
 import { IsometricCamera } from './IsometricCamera'
 import { WorldGrid } from './WorldGrid'
+import { TerrainRenderer } from './TerrainRenderer'
 import { BuildingRenderer } from './BuildingRenderer'
 import { RoadRenderer } from './RoadRenderer'
+import { PipeRenderer } from './PipeRenderer'
+import { FireRenderer } from './FireRenderer'
+import { WasteRenderer } from './WasteRenderer'
+import { OverlayRenderer } from './OverlayRenderer'
 import { TileHighlight } from './TileHighlight'
 import { DayNightLighting } from './DayNightLighting'
 import { GameLoop } from './GameLoop'
@@ -102,6 +107,9 @@ function Scene() {
       {/* Game Loop Logic */}
       <GameLoop />
       
+      {/* Rivers and hills */}
+      <TerrainRenderer />
+      
       {/* World Grid (zones) */}
       <WorldGrid />
       
@@ -111,6 +119,18 @@ function Scene() {
       {/* Roads */}
       <RoadRenderer />
       
+      {/* Water pipes (pipe mode and water overlay) */}
+      <PipeRenderer />
+      
+      {/* Fires, rubble and fire trucks */}
+      <FireRenderer />
+      
+      {/* Garbage trucks */}
+      <WasteRenderer />
+      
+      {/* Heatmap of the selected overlay */}
+      <OverlayRenderer />
+      
       {/* Traffic */}
       <TrafficSystem />
       
@@ -7,6 +7,8 @@ import * as THREE from 'three'
 
 import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
+import { useUIStore } from '@/stores/uiStore'
+import { getCommandHistory } from '@/game/core/CommandHistory'
 import {
   CAMERA_DEFAULT_ZOOM,
   CAMERA_MIN_ZOOM,
@@ -16,8 +18,22 @@ import {
   GRID_SIZE,
   TILE_SIZE,
 } from '@/lib/constants'
-import { clamp, worldToGrid, gridPositionToKey } from '@/lib/utils'
-import { GridPosition } from '@/types/game.types'
+import { clamp, worldToGrid, gridPositionToKey, getRoadPath, getTilesBetween } from '@/lib/utils'
+import { GameMode, GridPosition } from '@/types/game.types'
+import { BULLDOZE_DIALOG_ID } from '@/components/ui/BulldozeDialog'
+
+// Undo step names for each editing mode
+const EDIT_LABELS: Partial<Record<GameMode, string>> = {
+  build: 'İnşa',
+  road: 'Yol',
+  pipe: 'Boru',
+  zone: 'Bölge',
+  dezone: 'Bölge Kaldırma',
+  demolish: 'Yıkım',
+}
+
+// Modes where the left button drags out a road, pipe or area instead of painting tiles
+const DRAG_MODES: GameMode[] = ['road', 'pipe', 'zone', 'dezone', 'demolish']
 
 export function IsometricCamera() {
   const cameraRef = useRef<THREE.OrthographicCamera>(null)
@@ -30,13 +46,19 @@ export function IsometricCamera() {
   const rotation = useGameStore((state) => state.rotation)
   
   const placeBuilding = useCityStore((state) => state.placeBuilding)
-  const placeRoad = useCityStore((state) => state.placeRoad)
-  const removeBuilding = useCityStore((state) => state.removeBuilding)
-  const removeRoad = useCityStore((state) => state.removeRoad)
-  const setZone = useCityStore((state) => state.setZone)
-  const getTile = useCityStore((state) => state.getTile)
+  const planRoads = useCityStore((state) => state.planRoads)
+  const placeRoads = useCityStore((state) => state.placeRoads)
+  const planPipes = useCityStore((state) => state.planPipes)
+  const placePipes = useCityStore((state) => state.placePipes)
+  const removePipes = useCityStore((state) => state.removePipes)
+  const setZones = useCityStore((state) => state.setZones)
+  const planBulldoze = useCityStore((state) => state.planBulldoze)
+  const bulldoze = useCityStore((state) => state.bulldoze)
   const getBuildingAt = useCityStore((state) => state.getBuildingAt)
   const selectedZone = useGameStore((state) => state.selectedZone)
+  const setDragStart = useGameStore((state) => state.setDragStart)
+  const addNotification = useUIStore((state) => state.addNotification)
+  const openModal = useUIStore((state) => state.openModal)
   
   // Camera state
   const zoomRef = useRef(CAMERA_DEFAULT_ZOOM)
@@ -100,32 +122,83 @@ export function IsometricCamera() {
     // Clear clicked building when in build mode
     setClickedBuilding(null)
     
-    let placed = false
-    
     if (mode === 'build' && selectedBuilding) {
-      const result = placeBuilding(selectedBuilding, gridPos, rotation)
-      if (result) placed = true
-    } else if (mode === 'road') {
-      const result = placeRoad(gridPos)
-      if (result) placed = true
+      const result = getCommandHistory().execute(
+        EDIT_LABELS.build!,
+        () => placeBuilding(selectedBuilding, gridPos, rotation)
+      )
+      if (result) lastPlacedTileRef.current = key
+    }
+  }, [mode, selectedBuilding, rotation, placeBuilding, handleBuildingClick, setClickedBuilding])
+
+  // Apply the previewed road, pipe or area from the drag start to the hovered tile in one step
+  // With Shift held, a pipe stroke removes pipes instead
+  const commitDrag = useCallback((shiftKey: boolean) => {
+    const { dragStart, hoveredTile, selectedRoadType } = useGameStore.getState()
+    setDragStart(null)
+    if (!dragStart) return
+    
+    const end = hoveredTile ?? dragStart
+    const history = getCommandHistory()
+    const label = EDIT_LABELS[mode] ?? mode
+    
+    if (mode === 'road') {
+      const path = getRoadPath(dragStart, end)
+      const plan = planRoads(path, selectedRoadType)
+      if (plan.newTiles.length === 0) return
+      
+      const placed = history.execute(label, () => placeRoads(path, selectedRoadType))
+      if (!placed) {
+        addNotification({
+          type: 'warning',
+          title: 'Yol yapılamadı',
+          message: plan.blocked.length > 0 ? 'Yol güzergahı engelli.' : 'Yetersiz bakiye.',
+        })
+      }
+    } else if (mode === 'pipe') {
+      const path = getRoadPath(dragStart, end)
+      if (shiftKey) {
+        history.execute(label, () => removePipes(path))
+        return
+      }
+      
+      const plan = planPipes(path)
+      if (plan.newTiles.length === 0) return
+      
+      const placed = history.execute(label, () => placePipes(path))
+      if (!placed) {
+        addNotification({
+          type: 'warning',
+          title: 'Boru döşenemedi',
+          message: plan.blocked.length > 0 ? 'Borular suyun altından geçemez.' : 'Yetersiz bakiye.',
+        })
+      }
     } else if (mode === 'zone' && selectedZone) {
-      setZone(gridPos, selectedZone)
-      placed = true
+      const area = getTilesBetween(dragStart, end)
+      history.execute(label, () => setZones(area, selectedZone))
+    } else if (mode === 'dezone') {
+      const area = getTilesBetween(dragStart, end)
+      history.execute(label, () => setZones(area, null))
     } else if (mode === 'demolish') {
-      const tile = getTile(gridPos)
-      if (tile?.buildingId) {
-        removeBuilding(tile.buildingId)
-        placed = true
-      } else if (tile?.roadId) {
-        removeRoad(tile.roadId)
-        placed = true
+      const area = getTilesBetween(dragStart, end)
+      const plan = planBulldoze(area)
+      if (plan.buildingIds.length === 0 && plan.roadIds.length === 0 && plan.rubble.length === 0) return
+      
+      // A single tile is cleared right away; larger areas are confirmed first
+      if (area.length > 1) {
+        openModal(BULLDOZE_DIALOG_ID, plan)
+      } else if (!history.execute(label, () => bulldoze(area))) {
+        addNotification({
+          type: 'warning',
+          title: 'Yıkılamadı',
+          message: 'Yetersiz bakiye.',
+        })
       }
     }
-    
-    if (placed) {
-      lastPlacedTileRef.current = key
-    }
-  }, [mode, selectedBuilding, rotation, selectedZone, placeBuilding, placeRoad, setZone, removeBuilding, removeRoad, getTile, handleBuildingClick, setClickedBuilding])
+  }, [
+    mode, selectedZone, planRoads, placeRoads, planPipes, placePipes, removePipes,
+    setZones, planBulldoze, bulldoze, setDragStart, addNotification, openModal,
+  ])
 
   // Handle keyboard input
   useEffect(() => {
@@ -173,6 +246,12 @@ export function IsometricCamera() {
     }
     
     const handleMouseDown = (e: MouseEvent) => {
+      // Right click cancels a road or area being dragged
+      if (e.button === 2 && useGameStore.getState().dragStart) {
+        setDragStart(null)
+        return
+      }
+      
       // Middle or Right click -> Pan
       if (e.button === 1 || e.button === 2) { 
         isDraggingRef.current = true
@@ -181,11 +260,13 @@ export function IsometricCamera() {
       // Left click
       else if (e.button === 0) {
         // If we are in a building mode, left click means PAINT/BUILD, not pan
-        const isBuildingMode = mode === 'road' || mode === 'zone' || mode === 'build' || mode === 'demolish'
-        
-        if (isBuildingMode) {
+        if (DRAG_MODES.includes(mode)) {
+          // Drawn from here to where the button is released
+          setDragStart(useGameStore.getState().hoveredTile)
+        } else if (mode === 'build') {
           isLeftMouseDownRef.current = true
           lastPlacedTileRef.current = null // Reset for new drag
+          getCommandHistory().beginGroup(EDIT_LABELS[mode] ?? mode) // One undo step per stroke
         } else {
           // If not in build mode (e.g. view mode), left click can pan too
           isDraggingRef.current = true
@@ -197,8 +278,10 @@ export function IsometricCamera() {
     const handleMouseUp = (e: MouseEvent) => {
       isDraggingRef.current = false
       if (e.button === 0) {
+        if (DRAG_MODES.includes(mode)) commitDrag(e.shiftKey)
         isLeftMouseDownRef.current = false
         lastPlacedTileRef.current = null
+        getCommandHistory().endGroup()
       }
     }
     
@@ -229,7 +312,7 @@ export function IsometricCamera() {
       canvas.removeEventListener('wheel', handleWheel)
       canvas.removeEventListener('contextmenu', handleContextMenu)
     }
-  }, [gl, mode]) // Re-bind if mode changes to update drag vs pan logic
+  }, [gl, mode, commitDrag, setDragStart]) // Re-bind if mode changes to update drag vs pan logic
   
   // Update loop
   useFrame(() => {
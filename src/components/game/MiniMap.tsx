@@ -2,8 +2,8 @@
 
 import { useRef, useEffect, useMemo } from 'react'
 import { useCityStore } from '@/stores/cityStore'
-import { GRID_SIZE, MINIMAP_SIZE, ZONE_COLORS } from '@/lib/constants'
-import { gridPositionToKey } from '@/lib/utils'
+import { drawMiniMap } from '@/game/rendering/MiniMapRenderer'
+import { MINIMAP_SIZE } from '@/lib/constants'
 
 export function MiniMap() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -20,82 +20,7 @@ export function MiniMap() {
     const ctx = canvas.getContext('2d')
     if (!ctx) return
     
-    const scale = MINIMAP_SIZE / GRID_SIZE
-    
-    // Clear
-    ctx.fillStyle = '#1a202c'
-    ctx.fillRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE)
-    
-    // Draw tiles
-    tiles.forEach((tile) => {
-      const x = tile.position.x * scale
-      const y = tile.position.z * scale
-      
-      // Draw zone
-      if (tile.zone) {
-        ctx.fillStyle = ZONE_COLORS[tile.zone] + '40' // 25% opacity
-        ctx.fillRect(x, y, scale, scale)
-      }
-      
-      // Draw road
-      if (tile.roadId) {
-        ctx.fillStyle = '#4a5568'
-        ctx.fillRect(x, y, scale, scale)
-      }
-      
-      // Draw building
-      if (tile.buildingId) {
-        const building = buildings.get(tile.buildingId)
-        if (building) {
-          const def = useCityStore.getState().buildingCatalog.find(
-            d => d.id === building.definitionId
-          )
-          if (def) {
-            switch (def.category) {
-              case 'residential':
-                ctx.fillStyle = '#48bb78'
-                break
-              case 'commercial':
-                ctx.fillStyle = '#4299e1'
-                break
-              case 'industrial':
-                ctx.fillStyle = '#ecc94b'
-                break
-              case 'service':
-                ctx.fillStyle = '#9f7aea'
-                break
-              case 'park':
-                ctx.fillStyle = '#68d391'
-                break
-              default:
-                ctx.fillStyle = '#a0aec0'
-            }
-            ctx.fillRect(x, y, scale, scale)
-          }
-        }
-      }
-    })
-    
-    // Draw grid lines
-    ctx.strokeStyle = '#2d3748'
-    ctx.lineWidth = 0.5
-    for (let i = 0; i <= GRID_SIZE; i += 8) {
-      ctx.beginPath()
-      ctx.moveTo(i * scale, 0)
-      ctx.lineTo(i * scale, MINIMAP_SIZE)
-      ctx.stroke()
-      
-      ctx.beginPath()
-      ctx.moveTo(0, i * scale)
-      ctx.lineTo(MINIMAP_SIZE, i * scale)
-      ctx.stroke()
-    }
-    
-    // Draw border
-    ctx.strokeStyle = '#4a5568'
-    ctx.lineWidth = 2
-    ctx.strokeRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE)
-    
+    drawMiniMap(ctx, MINIMAP_SIZE, tiles, buildings, useCityStore.getState().buildingCatalog)
   }, [tiles, buildings, roads])
   
   // Stats
@@ -1,8 +1,12 @@
 'use client'
 
 import { useGameStore } from '@/stores/gameStore'
-import { OverlayType, ZoneType } from '@/types/game.types'
-import { cn } from '@/lib/utils'
+import { OverlayType, PollutionLayer, ZoneType } from '@/types/game.types'
+import { Direction, ROAD_CLASSES } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { PIPE_COST } from '@/lib/constants'
+import { cn, formatMoney, formatNumber } from '@/lib/utils'
+import { HEATMAPS, getHeatmapLabel, getLegendGradient } from '@/game/rendering/OverlayHeatmap'
 
 const OVERLAYS: { id: OverlayType; icon: string; label: string; color: string }[] = [
   { id: 'none', icon: '🗺️', label: 'Normal', color: 'gray' },
@@ -12,8 +16,23 @@ const OVERLAYS: { id: OverlayType; icon: string; label: string; color: string }[
   { id: 'crime', icon: '🚔', label: 'Suç', color: 'purple' },
   { id: 'happiness', icon: '😊', label: 'Mutluluk', color: 'blue' },
   { id: 'services', icon: '🏥', label: 'Hizmetler', color: 'teal' },
+  { id: 'water', icon: '💧', label: 'Su Şebekesi', color: 'blue' },
+  { id: 'garbage', icon: '🗑️', label: 'Çöp', color: 'amber' },
 ]
 
+const POLLUTION_LAYERS: { id: PollutionLayer; icon: string; label: string }[] = [
+  { id: 'air', icon: '🏭', label: 'Hava' },
+  { id: 'ground', icon: '🟫', label: 'Toprak' },
+  { id: 'noise', icon: '🔊', label: 'Gürültü' },
+]
+
+const WIND_LABELS: Record<Direction, string> = {
+  north: '⬆️ Kuzey',
+  south: '⬇️ Güney',
+  east: '➡️ Doğu',
+  west: '⬅️ Batı',
+}
+
 const ZONES: { id: ZoneType; icon: string; label: string; color: string }[] = [
   { id: 'residential', icon: '🏠', label: 'Konut', color: 'city-residential' },
   { id: 'commercial', icon: '🏪', label: 'Ticari', color: 'city-commercial' },
@@ -27,6 +46,14 @@ export function OverlayControls() {
   const selectedZone = useGameStore((state) => state.selectedZone)
   const setSelectedZone = useGameStore((state) => state.setSelectedZone)
   const setMode = useGameStore((state) => state.setMode)
+  const selectedRoadType = useGameStore((state) => state.selectedRoadType)
+  const setSelectedRoadType = useGameStore((state) => state.setSelectedRoadType)
+  const water = useCityStore((state) => state.water)
+  const waste = useCityStore((state) => state.waste)
+  const pollution = useCityStore((state) => state.pollution)
+  const pollutionLayer = useGameStore((state) => state.pollutionLayer)
+  const setPollutionLayer = useGameStore((state) => state.setPollutionLayer)
+  const heatmap = HEATMAPS[overlay]
   
   const handleZoneSelect = (zone: ZoneType) => {
     setSelectedZone(zone)
@@ -35,8 +62,121 @@ export function OverlayControls() {
   
   return (
     <div className="panel flex flex-col gap-2 px-3 py-2">
+      {/* Road class controls (only in road mode) */}
+      {mode === 'road' && (
+        <div className="flex items-center gap-1 pb-2 border-b border-panel-border">
+          {Object.values(ROAD_CLASSES).map((roadClass) => (
+            <button
+              key={roadClass.type}
+              onClick={() => setSelectedRoadType(roadClass.type)}
+              className={cn(
+                'flex flex-col items-center justify-center w-14 h-14 rounded-lg transition-all',
+                'hover:bg-gray-700',
+                selectedRoadType === roadClass.type && 'bg-city-accent/20 border border-city-accent'
+              )}
+              title={
+                `${roadClass.name}: ${formatMoney(roadClass.cost)}/karo, ` +
+                `bakım ${formatMoney(roadClass.maintenanceCost)}/gün, ` +
+                `${roadClass.speedLimit} km/sa, ${roadClass.lanes} şerit`
+              }
+            >
+              <span className="text-xl">{roadClass.icon}</span>
+              <span className="text-[10px] text-gray-400">{roadClass.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      
+      {/* Water network summary (only in pipe mode) */}
+      {mode === 'pipe' && (
+        <div className="pb-2 border-b border-panel-border text-xs space-y-1">
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">💧 Su</span>
+            <span className={water.surplus < 0 ? 'text-red-400' : 'text-blue-400'}>
+              {formatNumber(water.consumption)}/{formatNumber(water.production)}
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">🚽 Arıtma</span>
+            <span className={water.sewage > water.treatment ? 'text-red-400' : 'text-green-400'}>
+              {formatNumber(water.sewage)}/{formatNumber(water.treatment)}
+            </span>
+          </div>
+          <div className="text-gray-500">
+            Boru {formatMoney(PIPE_COST)}/karo · Sökmek için Shift ile sürükleyin
+          </div>
+        </div>
+      )}
+      
+      {/* Waste summary (only in the garbage overlay) */}
+      {overlay === 'garbage' && (
+        <div className="pb-2 border-b border-panel-border text-xs space-y-1">
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">🗑️ Üretim</span>
+            <span className="text-gray-300">{formatNumber(waste.production)}/gün</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">🚛 Toplanmayan</span>
+            <span className={waste.depots === 0 && waste.uncollected > 0 ? 'text-red-400' : 'text-yellow-400'}>
+              {formatNumber(waste.uncollected)}
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">⛰️ Çöp Sahası</span>
+            <span className={waste.landfillUsed >= waste.landfillCapacity ? 'text-red-400' : 'text-green-400'}>
+              {formatNumber(waste.landfillUsed)}/{formatNumber(waste.landfillCapacity)}
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">🔥 Yakma</span>
+            <span className="text-gray-300">{formatNumber(waste.incineration)}/gün</span>
+          </div>
+        </div>
+      )}
+      
+      {/* Pollution layers (only in the pollution overlay) */}
+      {overlay === 'pollution' && (
+        <div className="pb-2 border-b border-panel-border text-xs space-y-1">
+          <div className="flex items-center gap-1">
+            {POLLUTION_LAYERS.map((layer) => (
+              <button
+                key={layer.id}
+                onClick={() => setPollutionLayer(layer.id)}
+                className={cn(
+                  'flex-1 px-2 py-1 rounded transition-all hover:bg-gray-700',
+                  pollutionLayer === layer.id && 'bg-city-accent/20 border border-city-accent'
+                )}
+              >
+                {layer.icon} {layer.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">Ortalama</span>
+            <span className="text-yellow-400">{pollution[pollutionLayer].toFixed(1)}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-400">💨 Rüzgar</span>
+            <span className="text-gray-300">{WIND_LABELS[pollution.wind]}</span>
+          </div>
+        </div>
+      )}
+      
+      {/* Heatmap legend (only with a heatmap overlay) */}
+      {heatmap && (
+        <div className="pb-2 border-b border-panel-border text-xs space-y-1">
+          <div className="text-gray-400">{getHeatmapLabel(overlay, pollutionLayer)}</div>
+          <div className="h-2 rounded" style={{ background: getLegendGradient(heatmap.stops) }} />
+          <div className="flex justify-between gap-2 text-[10px] text-gray-500">
+            {heatmap.stops.map((stop) => (
+              <span key={stop.value}>{stop.label}</span>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {/* Zone controls (only in zone mode) */}
-      {mode === 'zone' && (
+      {(mode === 'zone' || mode === 'dezone') && (
         <div className="flex items-center gap-1 pb-2 border-b border-panel-border">
           {ZONES.map((zone) => (
             <button
@@ -64,6 +204,18 @@ export function OverlayControls() {
               <span className="text-[10px] text-gray-400">{zone.label}</span>
             </button>
           ))}
+          <button
+            onClick={() => setMode('dezone')}
+            className={cn(
+              'flex flex-col items-center justify-center w-14 h-14 rounded-lg transition-all',
+              'hover:bg-gray-700',
+              mode === 'dezone' && 'bg-city-accent/20 border border-city-accent'
+            )}
+            title="Bölge Kaldır"
+          >
+            <span className="text-xl">🧹</span>
+            <span className="text-[10px] text-gray-400">Kaldır</span>
+          </button>
         </div>
       )}
       
@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Billboard, Text } from '@react-three/drei'
+import { useGameStore } from '@/stores/gameStore'
+import { useCityStore } from '@/stores/cityStore'
+import { HEATMAPS, HeatmapContext, HeatmapDefinition, HeatmapTexture, getHeatmapLabel } from '@/game/rendering/OverlayHeatmap'
+import { getCityHappiness } from '@/game/simulation/PopulationSystem'
+import { GRID_SIZE, TILE_SIZE } from '@/lib/constants'
+import { gridToWorld, gridPositionToKey } from '@/lib/utils'
+
+// Seconds between resamples of overlays whose data changes in place
+const LIVE_REFRESH_INTERVAL = 1
+
+// Exact value of the overlay on the hovered tile
+function HeatmapTooltip({ context }: { context: HeatmapContext }) {
+  const overlay = useGameStore((state) => state.overlay)
+  const hoveredTile = useGameStore((state) => state.hoveredTile)
+  const tiles = useCityStore((state) => state.tiles)
+
+  const definition = HEATMAPS[overlay]
+  const tile = hoveredTile ? tiles.get(gridPositionToKey(hoveredTile)) : undefined
+  const value = definition && tile ? definition.getValue(tile, context) : null
+  if (!tile || value === null) return null
+
+  const worldPos = gridToWorld(tile.position)
+
+  return (
+    <Billboard position={[worldPos.x + TILE_SIZE / 2, 1.2, worldPos.z + TILE_SIZE / 2]}>
+      <Text fontSize={0.35} color="#ffffff" outlineWidth={0.03} outlineColor="#000000">
+        {`${getHeatmapLabel(overlay, context.pollutionLayer)}: ${value.toFixed(1)}`}
+      </Text>
+    </Billboard>
+  )
+}
+
+/**
+ * Heatmap of the selected overlay, drawn as one data texture over the grid
+ * with one texel per tile
+ */
+export function OverlayRenderer() {
+  const overlay = useGameStore((state) => state.overlay)
+  const pollutionLayer = useGameStore((state) => state.pollutionLayer)
+  const tiles = useCityStore((state) => state.tiles)
+  const roads = useCityStore((state) => state.roads)
+  const services = useCityStore((state) => state.services)
+  const population = useCityStore((state) => state.population)
+  const economy = useCityStore((state) => state.economy)
+  const buildings = useCityStore((state) => state.buildings)
+  const buildingCatalog = useCityStore((state) => state.buildingCatalog)
+
+  const heatmap = useMemo(() => new HeatmapTexture(), [])
+  const lastRefresh = useRef(0)
+  const sampled = useRef<{ definition?: HeatmapDefinition; context?: HeatmapContext }>({})
+
+  const definition = HEATMAPS[overlay]
+  const cityHappiness = useMemo(
+    () => getCityHappiness(population, economy, buildings, buildingCatalog),
+    [population, economy, buildings, buildingCatalog]
+  )
+  const context = useMemo<HeatmapContext>(
+    () => ({ roads, services, pollutionLayer, cityHappiness }),
+    [roads, services, pollutionLayer, cityHappiness]
+  )
+
+  useEffect(() => () => heatmap.dispose(), [heatmap])
+
+  // Start over when another overlay or pollution layer is picked
+  useEffect(() => {
+    heatmap.clear()
+  }, [heatmap, overlay, pollutionLayer])
+
+  // Everything again when the overlay or the data beside the tiles changes,
+  // only the replaced tiles when just the tiles change
+  useEffect(() => {
+    if (!definition) return
+    const full = sampled.current.definition !== definition || sampled.current.context !== context
+    sampled.current = { definition, context }
+    heatmap.update(definition, tiles, context, full)
+  }, [heatmap, definition, context, tiles])
+
+  // Traffic is written into the roads in place; sample it on a timer
+  useFrame((state) => {
+    if (!definition?.live) return
+    if (state.clock.elapsedTime - lastRefresh.current < LIVE_REFRESH_INTERVAL) return
+    lastRefresh.current = state.clock.elapsedTime
+    heatmap.update(definition, useCityStore.getState().tiles, context, true)
+  })
+
+  if (!definition) return null
+
+  return (
+    <group name="overlay">
+      <mesh position={[0, 0.04, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[GRID_SIZE * TILE_SIZE, GRID_SIZE * TILE_SIZE]} />
+        <meshBasicMaterial map={heatmap.texture} transparent depthWrite={false} />
+      </mesh>
+      <HeatmapTooltip context={context} />
+    </group>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useMemo } from 'react'
+
+import { useGameStore } from '@/stores/gameStore'
+import { useCityStore } from '@/stores/cityStore'
+import { getWaterNetwork } from '@/game/world/WaterNetwork'
+import { TILE_SIZE } from '@/lib/constants'
+import { gridToWorld, gridPositionToKey } from '@/lib/utils'
+import { GridPosition } from '@/types/game.types'
+
+const PIPE_WIDTH = TILE_SIZE * 0.2
+
+interface PipeSegment {
+  position: GridPosition
+  east: boolean
+  south: boolean
+  pressurized: boolean
+}
+
+// One pipe tile: a joint plus bars toward the east and south neighbors
+function PipeTile({ segment }: { segment: PipeSegment }) {
+  const worldPos = gridToWorld(segment.position)
+  const x = worldPos.x + TILE_SIZE / 2
+  const z = worldPos.z + TILE_SIZE / 2
+  const color = segment.pressurized ? '#3b82f6' : '#718096'
+  
+  return (
+    <group position={[x, 0.06, z]}>
+      <mesh>
+        <boxGeometry args={[PIPE_WIDTH * 1.5, PIPE_WIDTH, PIPE_WIDTH * 1.5]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+      {segment.east && (
+        <mesh position={[TILE_SIZE / 2, 0, 0]}>
+          <boxGeometry args={[TILE_SIZE, PIPE_WIDTH * 0.8, PIPE_WIDTH * 0.8]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      )}
+      {segment.south && (
+        <mesh position={[0, 0, TILE_SIZE / 2]}>
+          <boxGeometry args={[PIPE_WIDTH * 0.8, PIPE_WIDTH * 0.8, TILE_SIZE]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      )}
+    </group>
+  )
+}
+
+/**
+ * Underground pipe layer, shown in pipe mode and in the water overlay
+ * Gray pipes belong to a network without a working pump
+ */
+export function PipeRenderer() {
+  const mode = useGameStore((state) => state.mode)
+  const overlay = useGameStore((state) => state.overlay)
+  const tiles = useCityStore((state) => state.tiles)
+  // Changes whenever the pipe networks are recomputed
+  const water = useCityStore((state) => state.water)
+  
+  const visible = mode === 'pipe' || overlay === 'water'
+  
+  const segments = useMemo(() => {
+    if (!visible) return []
+    
+    const network = getWaterNetwork()
+    const hasPipe = (x: number, z: number) => !!tiles.get(gridPositionToKey({ x, z }))?.pipe
+    const result: PipeSegment[] = []
+    
+    tiles.forEach((tile) => {
+      if (!tile.pipe) return
+      const { x, z } = tile.position
+      result.push({
+        position: tile.position,
+        east: hasPipe(x + 1, z),
+        south: hasPipe(x, z + 1),
+        pressurized: water.production > 0 && network.isPressurized(tile.position),
+      })
+    })
+    
+    return result
+  }, [visible, tiles, water])
+  
+  if (!visible) return null
+  
+  return (
+    <group name="pipes">
+      {segments.map((segment) => (
+        <PipeTile key={gridPositionToKey(segment.position)} segment={segment} />
+      ))}
+    </group>
+  )
+}
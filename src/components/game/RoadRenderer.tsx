@@ -6,9 +6,10 @@ import * as THREE from 'three'
 
 import { useCityStore } from '@/stores/cityStore'
 import { useGameStore } from '@/stores/gameStore'
-import { Road } from '@/types/simulation.types'
+import { getPowerGrid } from '@/game/world/PowerGrid'
+import { Road, ROAD_CLASSES } from '@/types/simulation.types'
 import { ROAD_MODELS } from '@/types/building.types'
-import { TILE_SIZE } from '@/lib/constants'
+import { TILE_SIZE, ELEVATION_HEIGHT } from '@/lib/constants'
 import { gridToWorld, gridPositionToKey } from '@/lib/utils'
 
 // Preload road models
@@ -39,9 +40,13 @@ function RoadModel({
   )
 }
 
+const BRIDGE_HEIGHT = 0.3
+
 // Road segment component
 function RoadSegment({ road, connections }: { road: Road; connections: Set<string> }) {
   const worldPos = gridToWorld(road.position)
+  const roadClass = ROAD_CLASSES[road.type]
+  const elevation = useCityStore((state) => state.tiles.get(gridPositionToKey(road.position))?.elevation ?? 0)
   
   // Determine road type based on connections
   const { modelPath, rotation } = useMemo(() => {
@@ -67,8 +72,8 @@ function RoadSegment({ road, connections }: { road: Road; connections: Set<strin
       else if (!s) rot = 270
     } else if (count === 2) {
       if ((n && s) || (e && w)) {
-        // Use straight road without lightposts for cleaner look
-        path = ROAD_MODELS.straight
+        // Use straight road without lightposts for cleaner look, except on avenues
+        path = road.type === 'avenue' ? ROAD_MODELS.straight_lightposts : ROAD_MODELS.straight
         rot = (e && w) ? 90 : 0
       } else {
         path = ROAD_MODELS.corner
@@ -85,55 +90,65 @@ function RoadSegment({ road, connections }: { road: Road; connections: Set<strin
     }
     
     return { modelPath: path, rotation: rot }
-  }, [road.position, connections])
+  }, [road.position, road.type, connections])
   
-  return (
-    <Suspense fallback={
-      <Box 
-        args={[TILE_SIZE * 0.9, 0.04, TILE_SIZE * 0.9]} 
-        position={[worldPos.x + TILE_SIZE / 2, 0, worldPos.z + TILE_SIZE / 2]}
-      >
-        <meshStandardMaterial color="#4a5568" />
+  const centerX = worldPos.x + TILE_SIZE / 2
+  const centerZ = worldPos.z + TILE_SIZE / 2
+  
+  // Tunnels run underground; only the covered slab on top of the hill shows
+  if (road.type === 'tunnel') {
+    return (
+      <Box args={[TILE_SIZE * 0.9, 0.02, TILE_SIZE * 0.9]} position={[centerX, elevation * ELEVATION_HEIGHT + 0.01, centerZ]}>
+        <meshStandardMaterial color={roadClass.color} transparent opacity={0.6} />
       </Box>
-    }>
-      <RoadModel 
-        modelPath={modelPath}
-        position={[worldPos.x + TILE_SIZE / 2, 0, worldPos.z + TILE_SIZE / 2]}
-        rotation={rotation}
-      />
-    </Suspense>
+    )
+  }
+  
+  const y = road.type === 'bridge' ? BRIDGE_HEIGHT : 0
+  
+  return (
+    <group>
+      {/* Class marking under highways and bridge deck supports */}
+      {road.type === 'highway' && (
+        <Box args={[TILE_SIZE, 0.02, TILE_SIZE]} position={[centerX, -0.005, centerZ]}>
+          <meshStandardMaterial color={roadClass.color} />
+        </Box>
+      )}
+      {road.type === 'bridge' && (
+        <Box args={[0.15, BRIDGE_HEIGHT, 0.15]} position={[centerX, BRIDGE_HEIGHT / 2, centerZ]}>
+          <meshStandardMaterial color={roadClass.color} />
+        </Box>
+      )}
+      
+      <Suspense fallback={
+        <Box 
+          args={[TILE_SIZE * 0.9, 0.04, TILE_SIZE * 0.9]} 
+          position={[centerX, y, centerZ]}
+        >
+          <meshStandardMaterial color={roadClass.color} />
+        </Box>
+      }>
+        <RoadModel 
+          modelPath={modelPath}
+          position={[centerX, y, centerZ]}
+          rotation={rotation}
+        />
+      </Suspense>
+    </group>
   )
 }
 
-// Power station lights - roads near power plants are lit
+// Power station lights - roads on an energized grid are lit
 function PoweredStreetLights({ roads, isNight }: { roads: Road[]; isNight: boolean }) {
-  const buildings = useCityStore((state) => state.buildings)
+  // Changes whenever the power grid is recomputed
+  const power = useCityStore((state) => state.power)
   
   const lightPositions = useMemo(() => {
-    if (!isNight || roads.length === 0) return []
-    
-    // Find power plants
-    const powerPlants = Array.from(buildings.values()).filter(b => 
-      b.definitionId === 'power_plant' && b.isActive
-    )
-    
-    if (powerPlants.length === 0) return []
+    if (!isNight || roads.length === 0 || power.production === 0) return []
     
-    // Find roads within power plant radius
-    const litRoads: Road[] = []
-    
-    for (const road of roads) {
-      for (const plant of powerPlants) {
-        const dx = road.position.x - plant.position.x
-        const dz = road.position.z - plant.position.z
-        const distance = Math.sqrt(dx * dx + dz * dz)
-        
-        if (distance <= 15) { // Power plant service radius
-          litRoads.push(road)
-          break
-        }
-      }
-    }
+    // Find roads connected to a power plant
+    const powerGrid = getPowerGrid()
+    const litRoads = roads.filter(road => powerGrid.isEnergized(road.position))
     
     // Pick every 5th road for a light (within powered area)
     const selectedRoads: Road[] = []
@@ -148,7 +163,7 @@ function PoweredStreetLights({ roads, isNight }: { roads: Road[]; isNight: boole
       const worldPos = gridToWorld(road.position)
       return [worldPos.x + TILE_SIZE / 2, 1.0, worldPos.z + TILE_SIZE / 2] as [number, number, number]
     })
-  }, [roads, isNight, buildings])
+  }, [roads, isNight, power])
   
   if (!isNight || lightPositions.length === 0) return null
   
@@ -6,7 +6,17 @@ import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
 import { gridToWorld } from '@/lib/utils'
 import { TILE_SIZE } from '@/lib/constants'
-import { DEFAULT_BUILDINGS } from '@/types/building.types'
+import { DEFAULT_BUILDINGS, ServiceType } from '@/types/building.types'
+
+const SERVICE_COLORS: Record<ServiceType, string> = {
+  police: '#6366f1',
+  fire: '#ef4444',
+  health: '#10b981',
+  education: '#a855f7',
+  power: '#fbbf24',
+  water: '#3b82f6',
+  waste: '#a16207',
+}
 
 export function ServiceRadiusOverlay() {
   const clickedBuildingId = useGameStore((state) => state.clickedBuildingId)
@@ -34,7 +44,7 @@ export function ServiceRadiusOverlay() {
   
   if (!radiusData) return null
   
-  const color = radiusData.serviceType === 'power' ? '#fbbf24' : '#3b82f6'
+  const color = SERVICE_COLORS[radiusData.serviceType]
   
   return (
     <group>
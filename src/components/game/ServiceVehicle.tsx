@@ -0,0 +1,60 @@
+'use client'
+
+import { useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { useGLTF } from '@react-three/drei'
+import * as THREE from 'three'
+import { TILE_SIZE } from '@/lib/constants'
+import { gridToWorld } from '@/lib/utils'
+import { GridPosition } from '@/types/game.types'
+
+export interface VehicleRoute {
+  path: GridPosition[]
+  progress: number // Tiles travelled along the path
+}
+
+function tileCenter(position: GridPosition): THREE.Vector3 {
+  const worldPos = gridToWorld(position)
+  return new THREE.Vector3(worldPos.x + TILE_SIZE / 2, 0.02, worldPos.z + TILE_SIZE / 2)
+}
+
+/**
+ * A service truck following a route owned by a simulation system
+ * The system moves it once per game minute; the model glides in between
+ */
+export function ServiceVehicle({ modelPath, getRoute }: {
+  modelPath: string
+  getRoute: () => VehicleRoute | undefined
+}) {
+  const groupRef = useRef<THREE.Group>(null)
+  const { scene } = useGLTF(modelPath)
+  const clonedScene = useMemo(() => scene.clone(), [scene])
+  const target = useRef(new THREE.Vector3())
+  const placed = useRef(false)
+
+  useFrame((_, delta) => {
+    const route = getRoute()
+    if (!groupRef.current || !route || route.path.length === 0) return
+
+    const index = Math.min(Math.floor(route.progress), route.path.length - 1)
+    const next = Math.min(index + 1, route.path.length - 1)
+    target.current.lerpVectors(
+      tileCenter(route.path[index]),
+      tileCenter(route.path[next]),
+      route.progress - index
+    )
+
+    if (!placed.current) {
+      groupRef.current.position.copy(target.current)
+      placed.current = true
+    }
+
+    const move = new THREE.Vector3().subVectors(target.current, groupRef.current.position)
+    if (move.lengthSq() > 0.0001) {
+      groupRef.current.rotation.y = Math.atan2(move.x, move.z)
+    }
+    groupRef.current.position.lerp(target.current, Math.min(delta * 4, 1))
+  })
+
+  return <primitive ref={groupRef} object={clonedScene} scale={[0.15, 0.15, 0.15]} />
+}
@@ -8,12 +8,21 @@ import { useCityStore } from '@/stores/cityStore'
 import { gridToWorld } from '@/lib/utils'
 import { TILE_SIZE } from '@/lib/constants'
 import { DEFAULT_BUILDINGS } from '@/types/building.types'
+import { WaterShortage } from '@/types/simulation.types'
 
-// Ground indicator for missing utilities
-function GroundIndicator({ position, needsPower, needsWater }: { 
+// Why a building has no water
+const WATER_SHORTAGE_LABELS: Record<WaterShortage, string> = {
+  noPipe: 'Su borusu yok',
+  noPump: 'Pompa yok',
+  overloaded: 'Su yetersiz',
+}
+
+// Ground indicator for missing utilities and road access
+function GroundIndicator({ position, needsPower, needsWater, needsRoad }: { 
   position: [number, number, number]
   needsPower: boolean
   needsWater: boolean 
+  needsRoad: boolean
 }) {
   const meshRef = useRef<THREE.Mesh>(null)
   
@@ -29,7 +38,8 @@ function GroundIndicator({ position, needsPower, needsWater }: {
   // Determine color based on what's missing
   let color = '#f59e0b' // Orange for power
   if (needsWater && !needsPower) color = '#3b82f6' // Blue for water only
-  if (needsPower && needsWater) color = '#ef4444' // Red for both
+  if (needsRoad && !needsPower && !needsWater) color = '#a855f7' // Purple for road only
+  if ([needsPower, needsWater, needsRoad].filter(Boolean).length > 1) color = '#ef4444' // Red for several
   
   return (
     <mesh 
@@ -48,7 +58,17 @@ function GroundIndicator({ position, needsPower, needsWater }: {
   )
 }
 
-function StatusIcon({ position, type }: { position: [number, number, number], type: 'power' | 'water' }) {
+const STATUS_ICONS = {
+  power: { icon: '⚡', color: '#f59e0b' },
+  water: { icon: '💧', color: '#3b82f6' },
+  road: { icon: '🚧', color: '#a855f7' },
+} as const
+
+function StatusIcon({ position, type, label }: {
+  position: [number, number, number]
+  type: keyof typeof STATUS_ICONS
+  label?: string
+}) {
   const ref = useRef<THREE.Group>(null)
   
   useFrame((state) => {
@@ -57,8 +77,7 @@ function StatusIcon({ position, type }: { position: [number, number, number], ty
     }
   })
 
-  const color = type === 'power' ? '#f59e0b' : '#3b82f6'
-  const icon = type === 'power' ? '⚡' : '💧'
+  const { icon, color } = STATUS_ICONS[type]
 
   return (
     <group ref={ref} position={position}>
@@ -71,6 +90,17 @@ function StatusIcon({ position, type }: { position: [number, number, number], ty
         >
           {icon}
         </Text>
+        {label && (
+          <Text
+            position={[0, -0.3, 0]}
+            fontSize={0.15}
+            color="#ffffff"
+            outlineWidth={0.015}
+            outlineColor="#000000"
+          >
+            {label}
+          </Text>
+        )}
       </Billboard>
     </group>
   )
@@ -78,6 +108,7 @@ function StatusIcon({ position, type }: { position: [number, number, number], ty
 
 export function StatusOverlay() {
   const buildings = useCityStore((state) => state.buildings)
+  const waterShortages = useCityStore((state) => state.water.shortages)
   const buildingArray = useMemo(() => Array.from(buildings.values()), [buildings])
 
   return (
@@ -100,8 +131,9 @@ export function StatusOverlay() {
         // Check what this building needs
         const needsPower = !building.isPowered
         const needsWater = !building.hasWater
+        const needsRoad = !building.hasRoadAccess
         
-        if (!needsPower && !needsWater) return null
+        if (!needsPower && !needsWater && !needsRoad) return null
         
         const worldPos = gridToWorld(building.position)
         const centerX = worldPos.x + TILE_SIZE / 2
@@ -114,6 +146,7 @@ export function StatusOverlay() {
               position={[centerX, 0.03, centerZ]}
               needsPower={needsPower}
               needsWater={needsWater}
+              needsRoad={needsRoad}
             />
             
             {/* Floating icons */}
@@ -127,6 +160,13 @@ export function StatusOverlay() {
               <StatusIcon 
                 type="water" 
                 position={[centerX + 0.2, 1.2, centerZ]} 
+                label={WATER_SHORTAGE_LABELS[waterShortages.get(building.id) ?? 'noPipe']}
+              />
+            )}
+            {needsRoad && (
+              <StatusIcon 
+                type="road" 
+                position={[centerX, 1.6, centerZ]} 
               />
             )}
           </group>
@@ -0,0 +1,71 @@
+'use client'
+
+import { useMemo } from 'react'
+
+import { useCityStore } from '@/stores/cityStore'
+import { TILE_SIZE, ELEVATION_HEIGHT } from '@/lib/constants'
+import { gridToWorld, gridPositionToKey } from '@/lib/utils'
+import { GridPosition } from '@/types/game.types'
+
+const WATER_COLOR = '#4a90c2'
+const HILL_COLORS = ['#a3c49a', '#8fb587', '#7aa373'] // By elevation, lowest first
+
+// River tile, just below the ground so bridges and the grid stay above it
+function WaterTile({ position }: { position: GridPosition }) {
+  const worldPos = gridToWorld(position)
+
+  return (
+    <mesh
+      position={[worldPos.x + TILE_SIZE / 2, 0, worldPos.z + TILE_SIZE / 2]}
+      rotation={[-Math.PI / 2, 0, 0]}
+      receiveShadow
+    >
+      <planeGeometry args={[TILE_SIZE, TILE_SIZE]} />
+      <meshStandardMaterial color={WATER_COLOR} roughness={0.2} metalness={0.1} />
+    </mesh>
+  )
+}
+
+// Raised ground, one column per tile
+function HillTile({ position, elevation }: { position: GridPosition; elevation: number }) {
+  const worldPos = gridToWorld(position)
+  const height = elevation * ELEVATION_HEIGHT
+  const color = HILL_COLORS[Math.min(elevation, HILL_COLORS.length) - 1]
+
+  return (
+    <mesh position={[worldPos.x + TILE_SIZE / 2, height / 2, worldPos.z + TILE_SIZE / 2]} castShadow receiveShadow>
+      <boxGeometry args={[TILE_SIZE, height, TILE_SIZE]} />
+      <meshStandardMaterial color={color} />
+    </mesh>
+  )
+}
+
+/**
+ * Rivers and hills of the map
+ */
+export function TerrainRenderer() {
+  const tiles = useCityStore((state) => state.tiles)
+
+  const { water, hills } = useMemo(() => {
+    const water: GridPosition[] = []
+    const hills: { position: GridPosition; elevation: number }[] = []
+
+    tiles.forEach((tile) => {
+      if (tile.type === 'water') water.push(tile.position)
+      else if (tile.elevation > 0) hills.push({ position: tile.position, elevation: tile.elevation })
+    })
+
+    return { water, hills }
+  }, [tiles])
+
+  return (
+    <group name="terrain">
+      {water.map((position) => (
+        <WaterTile key={gridPositionToKey(position)} position={position} />
+      ))}
+      {hills.map((hill) => (
+        <HillTile key={gridPositionToKey(hill.position)} position={hill.position} elevation={hill.elevation} />
+      ))}
+    </group>
+  )
+}
@@ -1,21 +1,167 @@
 'use client'
 
 import { useMemo } from 'react'
+import { Text, Billboard } from '@react-three/drei'
 import * as THREE from 'three'
 
 import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
 import { TILE_SIZE } from '@/lib/constants'
-import { gridToWorld } from '@/lib/utils'
+import { gridToWorld, gridPositionToKey, getRoadPath, getTilesBetween, formatMoney } from '@/lib/utils'
+import { isBuildable } from '@/game/world/Terrain'
+import { GridPosition, GameMode } from '@/types/game.types'
+
+// Tiles of a road or pipe stroke, with blocked tiles and the total cost
+function PathPreview({ path, blocked, cost, end }: {
+  path: GridPosition[]
+  blocked: GridPosition[]
+  cost: number
+  end: GridPosition
+}) {
+  const balance = useCityStore((state) => state.economy.balance)
+  
+  const blockedKeys = new Set(blocked.map(gridPositionToKey))
+  const canAfford = balance >= cost
+  const labelPos = gridToWorld(end)
+  
+  return (
+    <group>
+      {path.map((position) => {
+        const key = gridPositionToKey(position)
+        const worldPos = gridToWorld(position)
+        const color = blockedKeys.has(key) || !canAfford ? '#f56565' : '#38b2ac'
+        
+        return (
+          <mesh
+            key={key}
+            position={[worldPos.x + TILE_SIZE / 2, 0.03, worldPos.z + TILE_SIZE / 2]}
+            rotation={[-Math.PI / 2, 0, 0]}
+          >
+            <planeGeometry args={[TILE_SIZE * 0.98, TILE_SIZE * 0.98]} />
+            <meshBasicMaterial 
+              color={color} 
+              transparent 
+              opacity={0.4}
+              side={THREE.DoubleSide}
+            />
+          </mesh>
+        )
+      })}
+      
+      {/* Cost estimate */}
+      <Billboard position={[labelPos.x + TILE_SIZE / 2, 1, labelPos.z + TILE_SIZE / 2]}>
+        <Text
+          fontSize={0.4}
+          color={blocked.length === 0 && canAfford ? '#ffffff' : '#f56565'}
+          outlineWidth={0.03}
+          outlineColor="#000000"
+        >
+          {formatMoney(cost)}
+        </Text>
+      </Billboard>
+    </group>
+  )
+}
+
+// Preview of the road being drawn
+function RoadPreview({ start, end }: { start: GridPosition; end: GridPosition }) {
+  const type = useGameStore((state) => state.selectedRoadType)
+  const planRoads = useCityStore((state) => state.planRoads)
+  // Re-plan when the map changes under the preview
+  useCityStore((state) => state.tiles)
+  
+  const plan = planRoads(getRoadPath(start, end), type)
+  
+  return <PathPreview path={plan.path} blocked={plan.blocked} cost={plan.cost} end={end} />
+}
+
+// Preview of the pipe being laid
+function PipePreview({ start, end }: { start: GridPosition; end: GridPosition }) {
+  const planPipes = useCityStore((state) => state.planPipes)
+  // Re-plan when the map changes under the preview
+  useCityStore((state) => state.tiles)
+  
+  const plan = planPipes(getRoadPath(start, end))
+  
+  return <PathPreview path={plan.path} blocked={plan.blocked} cost={plan.cost} end={end} />
+}
+
+// Rectangle being dragged by the zone, de-zone and bulldoze tools, with a live summary
+function AreaPreview({ mode, start, end }: { mode: GameMode; start: GridPosition; end: GridPosition }) {
+  const selectedZone = useGameStore((state) => state.selectedZone)
+  const planZones = useCityStore((state) => state.planZones)
+  const planBulldoze = useCityStore((state) => state.planBulldoze)
+  // Re-plan when the map changes under the preview
+  useCityStore((state) => state.tiles)
+  
+  const area = getTilesBetween(start, end)
+  let color: string
+  let label: string
+  
+  if (mode === 'demolish') {
+    const plan = planBulldoze(area)
+    color = '#f56565'
+    label = `🏢 ${plan.buildingIds.length} · 🛣️ ${plan.roadIds.length} · 🧱 ${plan.rubble.length} · ${formatMoney(plan.refund - plan.cost)}`
+  } else {
+    const zone = mode === 'zone' ? selectedZone : null
+    color = mode === 'zone' ? '#38b2ac' : '#ed8936'
+    label = `${planZones(area, zone).length} karo`
+  }
+  
+  const minX = Math.min(start.x, end.x)
+  const minZ = Math.min(start.z, end.z)
+  const width = Math.abs(start.x - end.x) + 1
+  const depth = Math.abs(start.z - end.z) + 1
+  const worldPos = gridToWorld({ x: minX, z: minZ })
+  
+  return (
+    <group position={[
+      worldPos.x + (width * TILE_SIZE) / 2,
+      0.03,
+      worldPos.z + (depth * TILE_SIZE) / 2,
+    ]}>
+      <mesh rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[width * TILE_SIZE, depth * TILE_SIZE]} />
+        <meshBasicMaterial 
+          color={color} 
+          transparent 
+          opacity={0.3}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
+      
+      <lineSegments rotation={[-Math.PI / 2, 0, 0]}>
+        <edgesGeometry 
+          args={[new THREE.PlaneGeometry(width * TILE_SIZE, depth * TILE_SIZE)]} 
+        />
+        <lineBasicMaterial color={color} linewidth={2} />
+      </lineSegments>
+      
+      <Billboard position={[0, 1, 0]}>
+        <Text
+          fontSize={0.4}
+          color="#ffffff"
+          outlineWidth={0.03}
+          outlineColor="#000000"
+        >
+          {label}
+        </Text>
+      </Billboard>
+    </group>
+  )
+}
 
 export function TileHighlight() {
   const hoveredTile = useGameStore((state) => state.hoveredTile)
   const mode = useGameStore((state) => state.mode)
   const selectedBuilding = useGameStore((state) => state.selectedBuilding)
   const rotation = useGameStore((state) => state.rotation)
+  const dragStart = useGameStore((state) => state.dragStart)
+  const selectedRoadType = useGameStore((state) => state.selectedRoadType)
   
   const getBuildingDefinition = useCityStore((state) => state.getBuildingDefinition)
   const getTile = useCityStore((state) => state.getTile)
+  const planRoads = useCityStore((state) => state.planRoads)
   
   // Calculate highlight size and color based on mode
   const { width, depth, color, canPlace } = useMemo(() => {
@@ -45,7 +191,7 @@ export function TileHighlight() {
           for (let dz = 0; dz < d; dz++) {
             const checkPos = { x: hoveredTile.x + dx, z: hoveredTile.z + dz }
             const tile = getTile(checkPos)
-            if (!tile || tile.buildingId || tile.roadId) {
+            if (!tile || tile.buildingId || tile.roadId || tile.type === 'rubble' || !isBuildable(tile)) {
               canPlace = false
               break
             }
@@ -55,7 +201,7 @@ export function TileHighlight() {
       }
     } else if (mode === 'demolish') {
       const tile = getTile(hoveredTile)
-      if (tile?.buildingId || tile?.roadId) {
+      if (tile?.buildingId || tile?.roadId || tile?.type === 'rubble') {
         c = '#f56565' // Red for demolish
       } else {
         canPlace = false
@@ -63,13 +209,20 @@ export function TileHighlight() {
       }
     } else if (mode === 'road') {
       const tile = getTile(hoveredTile)
-      if (tile?.buildingId || tile?.roadId) {
+      if (tile?.roadId || planRoads([hoveredTile], selectedRoadType).blocked.length > 0) {
         canPlace = false
         c = '#f56565'
       }
-    } else if (mode === 'zone') {
+    } else if (mode === 'pipe') {
       const tile = getTile(hoveredTile)
-      if (tile?.buildingId || tile?.roadId) {
+      if (!tile || tile.type === 'water') {
+        canPlace = false
+      } else if (tile.pipe) {
+        c = '#3b82f6' // Blue over existing pipes
+      }
+    } else if (mode === 'zone' || mode === 'dezone') {
+      const tile = getTile(hoveredTile)
+      if (!tile || tile.buildingId || tile.roadId || !isBuildable(tile)) {
         canPlace = false
         c = '#f56565'
       }
@@ -81,10 +234,22 @@ export function TileHighlight() {
       color: canPlace ? c : '#f56565',
       canPlace,
     }
-  }, [hoveredTile, mode, selectedBuilding, rotation, getBuildingDefinition, getTile])
+  }, [hoveredTile, mode, selectedBuilding, rotation, selectedRoadType, getBuildingDefinition, getTile, planRoads])
   
   if (!hoveredTile) return null
   
+  if (mode === 'road' && dragStart) {
+    return <RoadPreview start={dragStart} end={hoveredTile} />
+  }
+  
+  if (mode === 'pipe' && dragStart) {
+    return <PipePreview start={dragStart} end={hoveredTile} />
+  }
+  
+  if ((mode === 'zone' || mode === 'dezone' || mode === 'demolish') && dragStart) {
+    return <AreaPreview mode={mode} start={dragStart} end={hoveredTile} />
+  }
+  
   const worldPos = gridToWorld(hoveredTile)
   
   return (
@@ -1,6 +1,8 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useGameStore } from '@/stores/gameStore'
+import { EventBus } from '@/game/core/EventBus'
 import { GameSpeed } from '@/types/game.types'
 import { cn } from '@/lib/utils'
 
@@ -15,6 +17,22 @@ export function TimeControls() {
   const gameTime = useGameStore((state) => state.gameTime)
   const setGameSpeed = useGameStore((state) => state.setGameSpeed)
   const isPaused = useGameStore((state) => state.isPaused)
+  const [autosaved, setAutosaved] = useState(false)
+  
+  // Briefly show an indicator after each autosave
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const unsubscribe = EventBus.subscribe<{ autosave: boolean }>('game:saved', (event) => {
+      if (!event.payload.autosave) return
+      setAutosaved(true)
+      clearTimeout(timeout)
+      timeout = setTimeout(() => setAutosaved(false), 2000)
+    })
+    return () => {
+      unsubscribe()
+      clearTimeout(timeout)
+    }
+  }, [])
   
   return (
     <div className="panel flex items-center gap-2 px-3 py-2">
@@ -45,6 +63,11 @@ export function TimeControls() {
            gameTime.speed === 'normal' ? 'Normal' :
            gameTime.speed === 'fast' ? 'Hızlı' : 'Çok Hızlı'}
         </span>
+        {autosaved && (
+          <span className="text-xs text-gray-500 animate-pulse" title="Otomatik kaydedildi">
+            💾
+          </span>
+        )}
       </div>
     </div>
   )
@@ -6,7 +6,7 @@ import { useGLTF } from '@react-three/drei'
 import * as THREE from 'three'
 import { useCityStore } from '@/stores/cityStore'
 import { gridToWorld } from '@/lib/utils'
-import { Road } from '@/types/simulation.types'
+import { Road, ROAD_CLASSES } from '@/types/simulation.types'
 import { TILE_SIZE } from '@/lib/constants'
 
 // ==========================================
@@ -154,8 +154,9 @@ function Car({ carId, modelPath, roadsRef }: CarProps) {
       return
     }
 
-    // Progress along current segment
-    state.progress += delta * state.speed
+    // Progress along current segment, faster on faster road classes
+    const speedFactor = ROAD_CLASSES[currentRoad.type].speedLimit / ROAD_CLASSES.road.speedLimit
+    state.progress += delta * state.speed * speedFactor
 
     if (state.progress >= 1) {
       // Arrived at destination, pick next road
@@ -0,0 +1,41 @@
+'use client'
+
+import { useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { useGLTF } from '@react-three/drei'
+import { SimulationManager } from '@/game/simulation/SimulationManager'
+import { WasteSystem } from '@/game/simulation/WasteSystem'
+import { ServiceVehicle } from './ServiceVehicle'
+
+const GARBAGE_TRUCK_MODEL = '/models/car/garbage-truck.glb'
+
+useGLTF.preload(GARBAGE_TRUCK_MODEL)
+
+function getWasteSystem(): WasteSystem | undefined {
+  return SimulationManager.getInstance().get<WasteSystem>('waste')
+}
+
+/**
+ * Garbage trucks on their rounds
+ */
+export function WasteRenderer() {
+  const [truckIds, setTruckIds] = useState<string[]>([])
+
+  // Trucks live in the waste system, not the store; pick up new and finished ones
+  useFrame(() => {
+    const ids = getWasteSystem()?.getState().trucks.map(t => t.id) ?? []
+    if (ids.join() !== truckIds.join()) setTruckIds(ids)
+  })
+
+  return (
+    <group name="waste">
+      {truckIds.map((id) => (
+        <ServiceVehicle
+          key={id}
+          modelPath={GARBAGE_TRUCK_MODEL}
+          getRoute={() => getWasteSystem()?.getState().trucks.find(t => t.id === id)}
+        />
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useUIStore } from '@/stores/uiStore'
+import { getGameEngine } from '@/game/core/GameEngine'
+import { AUTOSAVE_RECOVERY_MODAL } from '@/game/save/AutosaveService'
+import { SaveSlotMeta } from '@/types/game.types'
+import { formatMoney, formatNumber } from '@/lib/utils'
+
+export function AutosaveRecoveryDialog() {
+  const activeModal = useUIStore((state) => state.activeModal)
+  const modalData = useUIStore((state) => state.modalData)
+  const closeModal = useUIStore((state) => state.closeModal)
+  const addNotification = useUIStore((state) => state.addNotification)
+
+  if (activeModal !== AUTOSAVE_RECOVERY_MODAL) return null
+
+  const slot = modalData as SaveSlotMeta
+
+  const handleRecover = async () => {
+    const engine = getGameEngine()
+    closeModal()
+    if (await engine.loadGame(slot.id)) {
+      addNotification({
+        type: 'success',
+        title: 'Kurtarıldı',
+        message: 'Otomatik kayıt yüklendi.',
+      })
+    } else {
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: engine.getLastLoadError() ?? 'Otomatik kayıt yüklenemedi.',
+      })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 pointer-events-auto">
+      <div className="panel w-96 animate-slide-up">
+        <div className="panel-header">♻️ Otomatik Kayıt Bulundu</div>
+        <div className="panel-content space-y-3">
+          <p className="text-sm text-gray-300">
+            Son elle kaydınızdan daha yeni bir otomatik kayıt var. Kurtarmak ister misiniz?
+          </p>
+
+          <div className="flex gap-3 p-2 rounded-lg bg-gray-800/50">
+            {slot.thumbnail && (
+              <div
+                role="img"
+                aria-label={slot.cityName}
+                className="w-16 h-16 rounded bg-cover bg-center flex-shrink-0"
+                style={{ backgroundImage: `url(${slot.thumbnail})` }}
+              />
+            )}
+            <div className="text-xs text-gray-400">
+              <div className="font-semibold text-sm text-gray-100">{slot.cityName}</div>
+              <div>Gün {slot.day} · 👥 {formatNumber(slot.population)} · 💰 {formatMoney(slot.balance)}</div>
+              <div className="text-gray-500">{new Date(slot.timestamp).toLocaleString('tr-TR')}</div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={closeModal} className="btn-secondary text-sm">
+              Yoksay
+            </button>
+            <button onClick={handleRecover} className="btn-primary text-sm">
+              Kurtar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
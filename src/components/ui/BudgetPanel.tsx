@@ -3,12 +3,14 @@
 import { useState } from 'react'
 import { useCityStore } from '@/stores/cityStore'
 import { formatMoney } from '@/lib/utils'
+import { MAX_MAINTENANCE_FUNDING } from '@/lib/constants'
 import { cn } from '@/lib/utils'
 
 export function BudgetPanel() {
   const [expanded, setExpanded] = useState(false)
   const economy = useCityStore((state) => state.economy)
   const setTaxRate = useCityStore((state) => state.setTaxRate)
+  const setMaintenanceFunding = useCityStore((state) => state.setMaintenanceFunding)
   
   const netIncome = economy.income - economy.expenses
   
@@ -99,7 +101,7 @@ export function BudgetPanel() {
           </div>
           
           {/* Tax rate controls */}
-          <div>
+          <div className="mb-4">
             <h4 className="text-sm font-semibold text-gray-300 mb-2">Vergi Oranları</h4>
             <div className="space-y-3">
               {(['residential', 'commercial', 'industrial'] as const).map((zone) => (
@@ -128,6 +130,26 @@ export function BudgetPanel() {
               ))}
             </div>
           </div>
+          
+          {/* Maintenance budget; keeps buildings in repair */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-300 mb-2">Bakım Bütçesi</h4>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-gray-400 w-16">Bakım</span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_MAINTENANCE_FUNDING}
+                step={10}
+                value={economy.maintenanceFunding}
+                onChange={(e) => setMaintenanceFunding(Number(e.target.value))}
+                className="flex-1 accent-city-accent"
+              />
+              <span className="text-sm font-mono w-10 text-right">
+                {economy.maintenanceFunding}%
+              </span>
+            </div>
+          </div>
         </div>
       )}
     </div>
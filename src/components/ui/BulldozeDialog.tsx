@@ -0,0 +1,102 @@
+'use client'
+
+import { useUIStore } from '@/stores/uiStore'
+import { useCityStore } from '@/stores/cityStore'
+import { getCommandHistory } from '@/game/core/CommandHistory'
+import { BulldozePlan } from '@/types/game.types'
+import { formatMoney, formatNumber } from '@/lib/utils'
+
+export const BULLDOZE_DIALOG_ID = 'bulldoze'
+
+export function BulldozeDialog() {
+  const activeModal = useUIStore((state) => state.activeModal)
+  const modalData = useUIStore((state) => state.modalData)
+  const closeModal = useUIStore((state) => state.closeModal)
+  const addNotification = useUIStore((state) => state.addNotification)
+  const bulldoze = useCityStore((state) => state.bulldoze)
+  const buildings = useCityStore((state) => state.buildings)
+  const getBuildingDefinition = useCityStore((state) => state.getBuildingDefinition)
+
+  if (activeModal !== BULLDOZE_DIALOG_ID) return null
+
+  const plan = modalData as BulldozePlan
+  const net = plan.refund - plan.cost
+
+  // Group the buildings by type for the list
+  const counts = new Map<string, number>()
+  plan.buildingIds.forEach((id) => {
+    const building = buildings.get(id)
+    const name = building
+      ? getBuildingDefinition(building.definitionId)?.name ?? building.definitionId
+      : id
+    counts.set(name, (counts.get(name) ?? 0) + 1)
+  })
+
+  const handleConfirm = () => {
+    closeModal()
+    const result = getCommandHistory().execute('Yıkım', () => bulldoze(plan.positions))
+    if (!result) {
+      addNotification({
+        type: 'warning',
+        title: 'Yıkılamadı',
+        message: 'Yetersiz bakiye.',
+      })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 pointer-events-auto">
+      <div className="panel w-96 animate-slide-up">
+        <div className="panel-header">🔨 Alanı Yık</div>
+        <div className="panel-content space-y-3">
+          <div className="max-h-48 overflow-y-auto space-y-1 text-sm">
+            {Array.from(counts).map(([name, count]) => (
+              <div key={name} className="flex justify-between">
+                <span className="text-gray-300">🏢 {name}</span>
+                <span className="text-gray-400">×{formatNumber(count)}</span>
+              </div>
+            ))}
+            {plan.roadIds.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-300">🛣️ Yol</span>
+                <span className="text-gray-400">×{formatNumber(plan.roadIds.length)}</span>
+              </div>
+            )}
+            {plan.rubble.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-300">🧱 Enkaz</span>
+                <span className="text-gray-400">×{formatNumber(plan.rubble.length)}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="p-2 rounded-lg bg-gray-800/50 text-xs space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-400">İade</span>
+              <span className="text-green-400">+{formatMoney(plan.refund)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Yıkım maliyeti</span>
+              <span className="text-red-400">-{formatMoney(plan.cost)}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span className="text-gray-300">Toplam</span>
+              <span className={net >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {net >= 0 ? '+' : ''}{formatMoney(net)}
+              </span>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={closeModal} className="btn-secondary text-sm">
+              İptal
+            </button>
+            <button onClick={handleConfirm} className="btn-primary text-sm">
+              Yık
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
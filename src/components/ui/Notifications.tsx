@@ -1,6 +1,7 @@
 'use client'
 
 import { useUIStore } from '@/stores/uiStore'
+import { useCityAlerts } from '@/hooks/useCityAlerts'
 import { cn } from '@/lib/utils'
 
 const ICONS = {
@@ -13,6 +14,7 @@ const ICONS = {
 export function Notifications() {
   const notifications = useUIStore((state) => state.notifications)
   const removeNotification = useUIStore((state) => state.removeNotification)
+  useCityAlerts()
 
   if (notifications.length === 0) return null
 
@@ -0,0 +1,309 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useUIStore } from '@/stores/uiStore'
+import { getGameEngine } from '@/game/core/GameEngine'
+import { getSaveSlotManager } from '@/game/save/SaveSlotManager'
+import { SaveSlotMeta } from '@/types/game.types'
+import { CITY_FILE_EXTENSION, SAVE_THUMBNAIL_SIZE } from '@/lib/constants'
+import { formatMoney, formatNumber } from '@/lib/utils'
+
+export const SAVE_DIALOG_ID = 'saves'
+
+export function SaveLoadDialog() {
+  const activeModal = useUIStore((state) => state.activeModal)
+  const closeModal = useUIStore((state) => state.closeModal)
+  const addNotification = useUIStore((state) => state.addNotification)
+
+  const [slots, setSlots] = useState<SaveSlotMeta[]>([])
+  const [newName, setNewName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const isOpen = activeModal === SAVE_DIALOG_ID
+  const refresh = useCallback(async () => {
+    try {
+      setSlots(await getSaveSlotManager().list())
+    } catch (error) {
+      console.error('[SaveLoadDialog] Failed to list slots:', error)
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: 'Kayıtlar listelenemedi.',
+      })
+    }
+  }, [addNotification])
+
+  useEffect(() => {
+    if (isOpen) refresh()
+  }, [isOpen, refresh])
+
+  if (!isOpen) return null
+
+  const handleSave = async (slotId: string | null, name?: string) => {
+    if (await getGameEngine().saveGame(slotId, name)) {
+      addNotification({
+        type: 'success',
+        title: 'Kaydedildi',
+        message: 'Şehir başarıyla kaydedildi.',
+      })
+      setNewName('')
+      refresh()
+    } else {
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: 'Oyun kaydedilemedi.',
+      })
+    }
+  }
+
+  const handleOverwrite = (slot: SaveSlotMeta) => {
+    if (confirm(`"${slot.name}" kaydının üzerine yazmak istediğinize emin misiniz?`)) {
+      handleSave(slot.id)
+    }
+  }
+
+  const handleLoad = async (slot: SaveSlotMeta) => {
+    if (!confirm(`"${slot.name}" yüklensin mi? Kaydedilmemiş değişiklikler kaybolacak.`)) return
+
+    const engine = getGameEngine()
+    if (await engine.loadGame(slot.id)) {
+      addNotification({
+        type: 'success',
+        title: 'Yüklendi',
+        message: `${slot.name} yüklendi.`,
+      })
+      closeModal()
+    } else {
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: engine.getLastLoadError() ?? 'Kayıtlı oyun bulunamadı.',
+      })
+    }
+  }
+
+  const handleExport = async () => {
+    try {
+      const { blob, fileName } = await getGameEngine().exportCity()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('[SaveLoadDialog] Failed to export city:', error)
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: 'Şehir dışa aktarılamadı.',
+      })
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    if (!confirm(`${file.name} yüklensin mi? Kaydedilmemiş değişiklikler kaybolacak.`)) return
+
+    const engine = getGameEngine()
+    if (await engine.importCity(file)) {
+      addNotification({
+        type: 'success',
+        title: 'İçe Aktarıldı',
+        message: `${file.name} yüklendi.`,
+      })
+      closeModal()
+    } else {
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: engine.getLastLoadError() ?? 'Şehir dosyası içe aktarılamadı.',
+      })
+    }
+  }
+
+  const handleRename = async (slot: SaveSlotMeta) => {
+    const name = renameValue.trim()
+    setRenamingId(null)
+    if (!name) return
+
+    try {
+      await getSaveSlotManager().rename(slot.id, name)
+      refresh()
+    } catch (error) {
+      console.error('[SaveLoadDialog] Failed to rename slot:', error)
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: 'Kayıt yeniden adlandırılamadı.',
+      })
+    }
+  }
+
+  const handleDuplicate = async (slot: SaveSlotMeta) => {
+    try {
+      await getSaveSlotManager().duplicate(slot.id)
+      refresh()
+    } catch (error) {
+      console.error('[SaveLoadDialog] Failed to duplicate slot:', error)
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: 'Kayıt kopyalanamadı.',
+      })
+    }
+  }
+
+  const handleDelete = async (slot: SaveSlotMeta) => {
+    if (!confirm(`"${slot.name}" kaydını silmek istediğinize emin misiniz?`)) return
+
+    try {
+      await getSaveSlotManager().delete(slot.id)
+      refresh()
+    } catch (error) {
+      console.error('[SaveLoadDialog] Failed to delete slot:', error)
+      addNotification({
+        type: 'error',
+        title: 'Hata',
+        message: 'Kayıt silinemedi.',
+      })
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 pointer-events-auto"
+      onClick={closeModal}
+    >
+      <div
+        className="panel w-[32rem] max-h-[80vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="panel-header flex items-center justify-between">
+          <span>💾 Kayıtlar</span>
+          <button onClick={closeModal} className="text-gray-400 hover:text-white">
+            ×
+          </button>
+        </div>
+
+        {/* New save */}
+        <form
+          className="flex gap-2 p-4 border-b border-panel-border"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSave(null, newName.trim() || undefined)
+          }}
+        >
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Kayıt adı"
+            className="flex-1 px-3 py-2 rounded-md bg-gray-800 border border-panel-border text-sm"
+          />
+          <button type="submit" className="btn-primary text-sm">
+            Yeni Kayıt
+          </button>
+        </form>
+
+        {/* Export / import */}
+        <div className="flex gap-2 px-4 py-2 border-b border-panel-border">
+          <button onClick={handleExport} className="btn-secondary text-sm flex-1">
+            📤 Dışa Aktar
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="btn-secondary text-sm flex-1">
+            📥 İçe Aktar
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={CITY_FILE_EXTENSION}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImport(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        {/* Slot list */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {slots.length === 0 && (
+            <div className="text-center text-sm text-gray-500 py-8">
+              Henüz kayıt yok.
+            </div>
+          )}
+
+          {slots.map((slot) => (
+            <div key={slot.id} className="flex gap-3 p-2 rounded-lg bg-gray-800/50">
+              <div
+                role="img"
+                aria-label={slot.cityName}
+                className="rounded bg-gray-900 bg-cover bg-center flex-shrink-0"
+                style={{
+                  width: SAVE_THUMBNAIL_SIZE,
+                  height: SAVE_THUMBNAIL_SIZE,
+                  backgroundImage: slot.thumbnail ? `url(${slot.thumbnail})` : undefined,
+                }}
+              />
+
+              <div className="flex-1 min-w-0">
+                {renamingId === slot.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => handleRename(slot)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(slot)
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    className="w-full px-2 py-1 rounded bg-gray-900 border border-panel-border text-sm"
+                  />
+                ) : (
+                  <div className="font-semibold truncate">{slot.name}</div>
+                )}
+                <div className="text-xs text-gray-400 truncate">
+                  {slot.cityName} · Gün {slot.day}
+                </div>
+                <div className="text-xs text-gray-400">
+                  👥 {formatNumber(slot.population)} · 💰 {formatMoney(slot.balance)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(slot.timestamp).toLocaleString('tr-TR')}
+                </div>
+
+                <div className="mt-1 flex flex-wrap gap-1">
+                  <button onClick={() => handleLoad(slot)} className="btn-icon text-xs" title="Yükle">
+                    📂
+                  </button>
+                  <button onClick={() => handleOverwrite(slot)} className="btn-icon text-xs" title="Üzerine Kaydet">
+                    💾
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(slot.id)
+                      setRenameValue(slot.name)
+                    }}
+                    className="btn-icon text-xs"
+                    title="Yeniden Adlandır"
+                  >
+                    ✏️
+                  </button>
+                  <button onClick={() => handleDuplicate(slot)} className="btn-icon text-xs" title="Kopyala">
+                    📄
+                  </button>
+                  <button onClick={() => handleDelete(slot)} className="btn-icon text-xs" title="Sil">
+                    🗑️
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
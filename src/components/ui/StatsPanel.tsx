@@ -7,6 +7,9 @@ import { formatNumber, formatTime } from '@/lib/utils'
 export function StatsPanel() {
   const population = useCityStore((state) => state.population)
   const zoneDemand = useCityStore((state) => state.zoneDemand)
+  const power = useCityStore((state) => state.power)
+  const water = useCityStore((state) => state.water)
+  const crime = useCityStore((state) => state.crime)
   const gameTime = useGameStore((state) => state.gameTime)
   
   return (
@@ -60,6 +63,51 @@ export function StatsPanel() {
           </div>
         </div>
         
+        {/* Power */}
+        <div className="flex items-center gap-2">
+          <span className="text-xl">⚡</span>
+          <div>
+            <div className={`stat-value text-sm ${power.surplus < 0 ? 'text-red-400' : 'text-orange-400'}`}>
+              {formatNumber(power.consumption)}/{formatNumber(power.production)} MW
+            </div>
+            <div className="stat-label">Elektrik</div>
+          </div>
+        </div>
+        
+        {/* Water */}
+        <div className="flex items-center gap-2">
+          <span className="text-xl">💧</span>
+          <div>
+            <div className={`stat-value text-sm ${water.surplus < 0 ? 'text-red-400' : 'text-blue-400'}`}>
+              {formatNumber(water.consumption)}/{formatNumber(water.production)}
+            </div>
+            <div className="stat-label">Su</div>
+          </div>
+        </div>
+        
+        {/* Crime, with the per-district breakdown on hover */}
+        <div className="relative group flex items-center gap-2">
+          <span className="text-xl">🚔</span>
+          <div>
+            <div className={`stat-value text-sm ${crime.average >= 30 ? 'text-red-400' : 'text-purple-400'}`}>
+              {Math.round(crime.average)}
+            </div>
+            <div className="stat-label">Suç</div>
+          </div>
+          {crime.districts.length > 0 && (
+            <div className="absolute top-full left-0 mt-2 hidden group-hover:block panel px-3 py-2 w-44 z-10">
+              {crime.districts.map((district) => (
+                <div key={district.id} className="flex justify-between text-xs">
+                  <span className="text-gray-300">{district.name}</span>
+                  <span className={district.crime >= 30 ? 'text-red-400' : 'text-gray-400'}>
+                    {Math.round(district.crime)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        
         {/* Zone Demand */}
         <div className="flex items-center gap-3 border-l border-panel-border pl-4 ml-2">
           <div className="flex flex-col items-center">
@@ -1,14 +1,19 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useGameStore } from '@/stores/gameStore'
-import { useCityStore } from '@/stores/cityStore'
 import { useUIStore } from '@/stores/uiStore'
 import { GameMode } from '@/types/game.types'
 import { cn } from '@/lib/utils'
+import { EventBus } from '@/game/core/EventBus'
+import { getCommandHistory } from '@/game/core/CommandHistory'
+import { getGameEngine } from '@/game/core/GameEngine'
+import { SAVE_DIALOG_ID } from './SaveLoadDialog'
 
 const TOOLS: { id: GameMode; icon: string; label: string; shortcut: string }[] = [
   { id: 'build', icon: '🏗️', label: 'İnşa', shortcut: 'B' },
   { id: 'road', icon: '🛤️', label: 'Yol', shortcut: 'R' },
+  { id: 'pipe', icon: '🚰', label: 'Boru', shortcut: 'U' },
   { id: 'zone', icon: '📐', label: 'Bölge', shortcut: 'Z' },
   { id: 'demolish', icon: '🔨', label: 'Yıkım', shortcut: 'X' },
   { id: 'view', icon: '👁️', label: 'Görünüm', shortcut: 'V' },
@@ -22,23 +27,23 @@ export function Toolbar() {
   const toggleGrid = useGameStore((state) => state.toggleGrid)
   const showGrid = useGameStore((state) => state.showGrid)
   
-  const save = useCityStore((state) => state.save)
-  const reset = useCityStore((state) => state.reset)
-  
   const addNotification = useUIStore((state) => state.addNotification)
+  const openModal = useUIStore((state) => state.openModal)
   
-  const handleSave = () => {
-    save()
-    addNotification({
-      type: 'success',
-      title: 'Kaydedildi',
-      message: 'Şehir başarıyla kaydedildi.',
-    })
-  }
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false })
+  
+  useEffect(() => {
+    const commands = getCommandHistory()
+    setHistory({ canUndo: commands.canUndo(), canRedo: commands.canRedo() })
+    return EventBus.subscribe<{ canUndo: boolean; canRedo: boolean }>(
+      'history:changed',
+      (event) => setHistory(event.payload)
+    )
+  }, [])
   
   const handleReset = () => {
     if (confirm('Şehri sıfırlamak istediğinize emin misiniz?')) {
-      reset()
+      getGameEngine().resetGame()
       addNotification({
         type: 'info',
         title: 'Sıfırlandı',
@@ -58,7 +63,8 @@ export function Toolbar() {
             className={cn(
               'flex flex-col items-center justify-center w-12 h-12 rounded-lg transition-all',
               'hover:bg-gray-700',
-              mode === tool.id && 'bg-city-accent/20 border border-city-accent'
+              (mode === tool.id || (tool.id === 'zone' && mode === 'dezone')) &&
+                'bg-city-accent/20 border border-city-accent'
             )}
             title={`${tool.label} (${tool.shortcut})`}
           >
@@ -82,6 +88,26 @@ export function Toolbar() {
         </div>
       )}
       
+      {/* Undo/Redo */}
+      <div className="flex items-center gap-1 border-r border-panel-border pr-3 mr-2">
+        <button
+          onClick={() => getCommandHistory().undo()}
+          disabled={!history.canUndo}
+          className="btn-icon disabled:opacity-40"
+          title="Geri Al (Ctrl+Z)"
+        >
+          <span className="text-xl">↶</span>
+        </button>
+        <button
+          onClick={() => getCommandHistory().redo()}
+          disabled={!history.canRedo}
+          className="btn-icon disabled:opacity-40"
+          title="Yinele (Ctrl+Y)"
+        >
+          <span className="text-xl">↷</span>
+        </button>
+      </div>
+      
       {/* Grid toggle */}
       <button
         onClick={toggleGrid}
@@ -97,9 +123,9 @@ export function Toolbar() {
       {/* Save/Reset */}
       <div className="flex items-center gap-1 border-l border-panel-border pl-3 ml-2">
         <button
-          onClick={handleSave}
+          onClick={() => openModal(SAVE_DIALOG_ID)}
           className="btn-icon"
-          title="Kaydet (F1)"
+          title="Kayıtlar"
         >
           <span className="text-xl">💾</span>
         </button>
@@ -0,0 +1,327 @@
+import { TileData } from '@/types/game.types'
+import { Building } from '@/types/building.types'
+import { Road } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { useUIStore } from '@/stores/uiStore'
+import { UNDO_HISTORY_LIMIT } from '@/lib/constants'
+import { GameEvents } from './EventBus'
+
+/**
+ * Tile fields owned by player edits; simulation-owned fields are left alone
+ */
+type TileEdit = Pick<TileData, 'type' | 'buildingId' | 'roadId' | 'zone' | 'pipe'>
+
+interface Change<T> {
+  before: T | undefined
+  after: T | undefined
+}
+
+interface CityMaps {
+  tiles: Map<string, TileData>
+  buildings: Map<string, Building>
+  roads: Map<string, Road>
+  balance: number
+}
+
+function toTileEdit(tile: TileData | undefined): TileEdit | undefined {
+  if (!tile) return undefined
+  return { type: tile.type, buildingId: tile.buildingId, roadId: tile.roadId, zone: tile.zone, pipe: tile.pipe }
+}
+
+function sameTileEdit(a: TileEdit | undefined, b: TileEdit | undefined): boolean {
+  if (!a || !b) return a === b
+  return (
+    a.type === b.type &&
+    a.buildingId === b.buildingId &&
+    a.roadId === b.roadId &&
+    a.zone === b.zone &&
+    a.pipe === b.pipe
+  )
+}
+
+/**
+ * Collect entries that a store update replaced, added or deleted
+ */
+function diffMaps<T, U>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  changes: Map<string, Change<U>>,
+  map: (value: T | undefined) => U | undefined
+): void {
+  const record = (key: string) => {
+    const existing = changes.get(key)
+    if (existing) {
+      existing.after = map(after.get(key))
+    } else {
+      changes.set(key, { before: map(before.get(key)), after: map(after.get(key)) })
+    }
+  }
+
+  if (before === after) return
+  after.forEach((value, key) => {
+    if (before.get(key) !== value) record(key)
+  })
+  before.forEach((_, key) => {
+    if (!after.has(key)) record(key)
+  })
+}
+
+/**
+ * A reversible player edit
+ * Stores the before/after state of every tile, building and road it touched
+ * and the money it cost, so undo refunds and redo charges again
+ */
+export class EditCommand {
+  readonly tiles = new Map<string, Change<TileEdit>>()
+  readonly buildings = new Map<string, Change<Building>>()
+  readonly roads = new Map<string, Change<Road>>()
+  cost = 0
+
+  constructor(readonly label: string) {}
+
+  /**
+   * Fold the difference between two store states into this command
+   */
+  capture(before: CityMaps, after: CityMaps): void {
+    diffMaps(before.tiles, after.tiles, this.tiles, toTileEdit)
+    diffMaps(before.buildings, after.buildings, this.buildings, value => value)
+    diffMaps(before.roads, after.roads, this.roads, value => value)
+    this.cost += before.balance - after.balance
+  }
+
+  isEmpty(): boolean {
+    return (
+      this.cost === 0 &&
+      !Array.from(this.tiles.values()).some(c => !sameTileEdit(c.before, c.after)) &&
+      !Array.from(this.buildings.values()).some(c => c.before !== c.after) &&
+      !Array.from(this.roads.values()).some(c => c.before !== c.after)
+    )
+  }
+
+  undo(): string | null {
+    return this.apply('before')
+  }
+
+  redo(): string | null {
+    return this.apply('after')
+  }
+
+  /**
+   * Put the touched entities into one side of the change
+   * Returns an error message instead if the city no longer matches the other side
+   */
+  private apply(target: 'before' | 'after'): string | null {
+    const source = target === 'before' ? 'after' : 'before'
+    const state = useCityStore.getState()
+
+    for (const [key, change] of Array.from(this.tiles)) {
+      if (!sameTileEdit(toTileEdit(state.tiles.get(key)), change[source])) {
+        return 'Harita bu işlemden sonra değişti.'
+      }
+    }
+    for (const [id, change] of Array.from(this.buildings)) {
+      if (state.buildings.has(id) !== (change[source] !== undefined)) {
+        return 'Harita bu işlemden sonra değişti.'
+      }
+    }
+    for (const [id, change] of Array.from(this.roads)) {
+      if (state.roads.has(id) !== (change[source] !== undefined)) {
+        return 'Harita bu işlemden sonra değişti.'
+      }
+    }
+
+    const charge = target === 'after' ? this.cost : -this.cost
+    if (charge > 0 && state.economy.balance < charge) {
+      return 'Yetersiz bakiye.'
+    }
+
+    const tiles = new Map(state.tiles)
+    this.tiles.forEach((change, key) => {
+      const tile = tiles.get(key)
+      const edit = change[target]
+      if (tile && edit) tiles.set(key, { ...tile, ...edit })
+    })
+
+    const buildings = new Map(state.buildings)
+    this.buildings.forEach((change, id) => {
+      const building = change[target]
+      if (building) buildings.set(id, building)
+      else buildings.delete(id)
+    })
+
+    const roads = new Map(state.roads)
+    this.roads.forEach((change, id) => {
+      const road = change[target]
+      if (road) {
+        // Keep live traffic on roads that stay in place
+        roads.set(id, { ...road, trafficLoad: state.roads.get(id)?.trafficLoad ?? road.trafficLoad })
+      } else {
+        roads.delete(id)
+      }
+    })
+
+    useCityStore.setState({
+      tiles,
+      buildings,
+      roads,
+      economy: { ...state.economy, balance: state.economy.balance - charge },
+    })
+
+    // Buildings, roads and pipes all feed the utility networks
+    setTimeout(() => useCityStore.getState().calculateUtilities(), 0)
+    return null
+  }
+}
+
+/**
+ * Bounded undo/redo history of player edits
+ * Edits made between beginGroup() and endGroup() (e.g. one drag stroke)
+ * become a single undo step
+ */
+export class CommandHistory {
+  private undoStack: EditCommand[] = []
+  private redoStack: EditCommand[] = []
+  private group: EditCommand | null = null
+  private revision = 0 // Counts edits, undos and redos; never reset
+
+  constructor(private limit: number = UNDO_HISTORY_LIMIT) {}
+
+  /**
+   * Run a city store edit and record what it changed
+   */
+  execute<T>(label: string, edit: () => T): T {
+    const before = this.readMaps()
+    const result = edit()
+    const after = this.readMaps()
+
+    if (this.group) {
+      this.group.capture(before, after)
+      return result
+    }
+
+    const command = new EditCommand(label)
+    command.capture(before, after)
+    this.push(command)
+    return result
+  }
+
+  /**
+   * Start collecting edits into one undo step
+   */
+  beginGroup(label: string): void {
+    this.endGroup()
+    this.group = new EditCommand(label)
+  }
+
+  /**
+   * Close the current group and add it to the history if it changed anything
+   */
+  endGroup(): void {
+    const group = this.group
+    this.group = null
+    if (group) this.push(group)
+  }
+
+  undo(): boolean {
+    this.endGroup()
+    const command = this.undoStack.pop()
+    if (!command) return false
+
+    const error = command.undo()
+    if (error) {
+      this.reportFailure('Geri alınamadı', command, error)
+      this.notifyChange()
+      return false
+    }
+
+    this.redoStack.push(command)
+    this.revision++
+    this.notifyChange()
+    return true
+  }
+
+  redo(): boolean {
+    this.endGroup()
+    const command = this.redoStack.pop()
+    if (!command) return false
+
+    const error = command.redo()
+    if (error) {
+      this.reportFailure('Yinelenemedi', command, error)
+      this.notifyChange()
+      return false
+    }
+
+    this.undoStack.push(command)
+    this.revision++
+    this.notifyChange()
+    return true
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Changes whenever the player edits the city or steps through the history
+   */
+  getRevision(): number {
+    return this.revision
+  }
+
+  /**
+   * Forget all history (after a load or reset)
+   */
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+    this.group = null
+    this.notifyChange()
+  }
+
+  private push(command: EditCommand): void {
+    if (command.isEmpty()) return
+
+    this.undoStack.push(command)
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+    this.revision++
+    this.notifyChange()
+  }
+
+  private readMaps(): CityMaps {
+    const { tiles, buildings, roads, economy } = useCityStore.getState()
+    return { tiles, buildings, roads, balance: economy.balance }
+  }
+
+  /**
+   * A step that no longer fits the city is dropped; older steps are still tried
+   */
+  private reportFailure(title: string, command: EditCommand, message: string): void {
+    useUIStore.getState().addNotification({
+      type: 'warning',
+      title,
+      message: `${command.label}: ${message}`,
+    })
+  }
+
+  private notifyChange(): void {
+    GameEvents.historyChanged({ canUndo: this.canUndo(), canRedo: this.canRedo() })
+  }
+}
+
+// Singleton instance
+let commandHistoryInstance: CommandHistory | null = null
+
+export function getCommandHistory(): CommandHistory {
+  if (!commandHistoryInstance) {
+    commandHistoryInstance = new CommandHistory()
+  }
+  return commandHistoryInstance
+}
@@ -1,4 +1,4 @@
-import { GameEvent, GameEventType } from '@/types/game.types'
+import { GameEvent, GameEventType, NotificationData } from '@/types/game.types'
 
 type EventCallback<T = unknown> = (event: GameEvent<T>) => void
 
@@ -175,7 +175,16 @@ export const GameEvents = {
     EventBus.publish('time:changed', data),
 
   // Save/Load events
-  gameSaved: () => EventBus.publish('game:saved', {}),
+  gameSaved: (data: { slotId: string; autosave: boolean }) =>
+    EventBus.publish('game:saved', data),
   gameLoaded: () => EventBus.publish('game:loaded', {}),
   gameReset: () => EventBus.publish('game:reset', {}),
+
+  // Undo/redo events
+  historyChanged: (data: { canUndo: boolean; canRedo: boolean }) =>
+    EventBus.publish('history:changed', data),
+
+  // Something in the city the player should hear about (fires, abandonment, ...)
+  cityAlert: (data: Omit<NotificationData, 'id' | 'duration'>) =>
+    EventBus.publish('city:alert', data),
 }
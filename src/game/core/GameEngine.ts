@@ -1,8 +1,15 @@
-import { ISimulationSystem, GameTime } from '@/types/game.types'
+import { ISimulationSystem, GameTime, SaveSlotMeta } from '@/types/game.types'
 import { GameLoop, getGameLoop, destroyGameLoop } from './GameLoop'
 import { EventBus, GameEvents } from './EventBus'
+import { Random, getRandom } from './Random'
 import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
+import { SaveDataError } from '@/game/save/SaveMigrations'
+import { getSaveSlotManager } from '@/game/save/SaveSlotManager'
+import { AutosaveService } from '@/game/save/AutosaveService'
+import { encodeCityFile, decodeCityFile, getCityFileName } from '@/game/save/CityFile'
+import { renderMiniMapThumbnail } from '@/game/rendering/MiniMapRenderer'
+import { QUICKSAVE_SLOT_ID } from '@/lib/constants'
 
 /**
  * Main game engine that coordinates all systems
@@ -11,11 +18,15 @@ export class GameEngine {
   private static instance: GameEngine | null = null
   
   private gameLoop: GameLoop
+  private random: Random
+  private autosave = new AutosaveService()
   private systems: Map<string, ISimulationSystem> = new Map()
   private isInitialized = false
+  private lastLoadError: string | null = null
   
   private constructor() {
     this.gameLoop = getGameLoop()
+    this.random = getRandom()
     this.setupGameLoop()
   }
 
@@ -68,6 +79,7 @@ export class GameEngine {
 
     // Start game loop
     this.gameLoop.start()
+    this.autosave.start()
     this.isInitialized = true
 
     console.log('[GameEngine] Initialized')
@@ -78,6 +90,7 @@ export class GameEngine {
    */
   shutdown(): void {
     this.gameLoop.stop()
+    this.autosave.stop()
     this.systems.clear()
     destroyGameLoop()
     EventBus.clear()
@@ -120,6 +133,20 @@ export class GameEngine {
     return Array.from(this.systems.values())
   }
 
+  /**
+   * Get the seeded random number generator used by the simulation
+   */
+  getRandom(): Random {
+    return this.random
+  }
+
+  /**
+   * Reseed the simulation random number generator
+   */
+  setSeed(seed: number): void {
+    this.random.setSeed(seed)
+  }
+
   /**
    * Main update loop
    */
@@ -199,40 +226,92 @@ export class GameEngine {
   }
 
   /**
-   * Save game
+   * Save game to a slot (a new slot when slotId is null)
    */
-  saveGame(): void {
+  async saveGame(slotId: string | null = QUICKSAVE_SLOT_ID, name?: string): Promise<SaveSlotMeta | null> {
     const cityStore = useCityStore.getState()
-    const saveData = cityStore.save()
-    GameEvents.gameSaved()
-    console.log('[GameEngine] Game saved', saveData)
+    const saveData = cityStore.snapshot()
+
+    try {
+      const slot = await getSaveSlotManager().write(
+        slotId,
+        saveData,
+        name ?? (slotId === QUICKSAVE_SLOT_ID ? 'Hızlı Kayıt' : undefined),
+        renderMiniMapThumbnail()
+      )
+      GameEvents.gameSaved({ slotId: slot.id, autosave: false })
+      console.log('[GameEngine] Game saved', slot)
+      return slot
+    } catch (error) {
+      console.error('[GameEngine] Failed to save game:', error)
+      return null
+    }
   }
 
   /**
-   * Load game
+   * Load game from a slot
    */
-  loadGame(): boolean {
+  async loadGame(slotId: string = QUICKSAVE_SLOT_ID): Promise<boolean> {
     const cityStore = useCityStore.getState()
-    const saveKey = 'mycity_save'
-    const saved = localStorage.getItem(saveKey)
-
-    if (!saved) {
-      console.log('[GameEngine] No save data found')
-      return false
-    }
+    this.lastLoadError = null
 
     try {
-      const saveData = JSON.parse(saved)
+      const saveData = await getSaveSlotManager().read(slotId)
+      if (!saveData) {
+        console.log('[GameEngine] No save data found')
+        return false
+      }
+
       cityStore.load(saveData)
       GameEvents.gameLoaded()
       console.log('[GameEngine] Game loaded')
       return true
     } catch (error) {
+      if (error instanceof SaveDataError) {
+        this.lastLoadError = error.message
+      }
       console.error('[GameEngine] Failed to load game:', error)
       return false
     }
   }
 
+  /**
+   * Export the current city as a .mycity file
+   */
+  async exportCity(): Promise<{ blob: Blob; fileName: string }> {
+    const saveData = useCityStore.getState().snapshot()
+    const blob = await encodeCityFile(saveData)
+    return { blob, fileName: getCityFileName(saveData) }
+  }
+
+  /**
+   * Import and load a .mycity file
+   */
+  async importCity(file: Blob): Promise<boolean> {
+    this.lastLoadError = null
+
+    try {
+      const saveData = await decodeCityFile(await file.arrayBuffer())
+      useCityStore.getState().load(saveData)
+      GameEvents.gameLoaded()
+      console.log('[GameEngine] City imported')
+      return true
+    } catch (error) {
+      this.lastLoadError = error instanceof SaveDataError
+        ? error.message
+        : 'Şehir dosyası içe aktarılamadı.'
+      console.error('[GameEngine] Failed to import city:', error)
+      return false
+    }
+  }
+
+  /**
+   * Get the reason the last load failed, if the save was rejected
+   */
+  getLastLoadError(): string | null {
+    return this.lastLoadError
+  }
+
   /**
    * Reset game
    */
@@ -240,6 +319,8 @@ export class GameEngine {
     const cityStore = useCityStore.getState()
     const gameStore = useGameStore.getState()
 
+    // Reseed first so the new map's terrain comes from the new seed
+    this.random.setSeed(Random.createSeed())
     cityStore.reset()
     gameStore.reset()
 
@@ -3,6 +3,7 @@ import { KEY_BINDINGS } from '@/lib/constants'
 import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
 import { getGameEngine } from './GameEngine'
+import { getCommandHistory } from './CommandHistory'
 import { useUIStore } from '@/stores/uiStore'
 
 type ActionCallback = () => void
@@ -107,10 +108,16 @@ export class InputManager {
     const cityStore = useCityStore.getState()
     const uiStore = useUIStore.getState()
 
+    // Bindings with modifiers are written like 'Ctrl+Shift+z'
+    let combo = key
+    if (event.ctrlKey || event.metaKey) {
+      combo = (event.shiftKey ? 'ctrl+shift+' : 'ctrl+') + key
+    }
+
     // Check key bindings
     for (const [action, keys] of Object.entries(KEY_BINDINGS)) {
       const keyList = keys as string[]
-      if (keyList.map(k => k.toLowerCase()).includes(key)) {
+      if (keyList.map(k => k.toLowerCase()).includes(combo)) {
         event.preventDefault()
         this.executeAction(action as keyof typeof KEY_BINDINGS)
         break
@@ -162,28 +169,47 @@ export class InputManager {
 
       // System
       case 'save':
-        engine.saveGame()
-        uiStore.addNotification({
-          type: 'success',
-          title: 'Kaydedildi',
-          message: 'Oyun başarıyla kaydedildi.',
+        engine.saveGame().then((slot) => {
+          if (slot) {
+            uiStore.addNotification({
+              type: 'success',
+              title: 'Kaydedildi',
+              message: 'Oyun başarıyla kaydedildi.',
+            })
+          } else {
+            uiStore.addNotification({
+              type: 'error',
+              title: 'Hata',
+              message: 'Oyun kaydedilemedi.',
+            })
+          }
         })
         break
 
       case 'load':
-        if (engine.loadGame()) {
-          uiStore.addNotification({
-            type: 'success',
-            title: 'Yüklendi',
-            message: 'Oyun başarıyla yüklendi.',
-          })
-        } else {
-          uiStore.addNotification({
-            type: 'error',
-            title: 'Hata',
-            message: 'Kayıtlı oyun bulunamadı.',
-          })
-        }
+        engine.loadGame().then((loaded) => {
+          if (loaded) {
+            uiStore.addNotification({
+              type: 'success',
+              title: 'Yüklendi',
+              message: 'Oyun başarıyla yüklendi.',
+            })
+          } else {
+            uiStore.addNotification({
+              type: 'error',
+              title: 'Hata',
+              message: engine.getLastLoadError() ?? 'Kayıtlı oyun bulunamadı.',
+            })
+          }
+        })
+        break
+
+      case 'undo':
+        getCommandHistory().undo()
+        break
+
+      case 'redo':
+        getCommandHistory().redo()
         break
 
       case 'toggle_grid':
@@ -0,0 +1,129 @@
+import { SerializedRandom } from '@/types/game.types'
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * All simulation randomness goes through this, so the same save
+ * and seed always replay into the same city
+ */
+export class Random {
+  private seed = 0
+  private state = 0
+
+  constructor(seed: number = Random.createSeed()) {
+    this.setSeed(seed)
+  }
+
+  /**
+   * Create a fresh seed for a new city
+   */
+  static createSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * 0x100000000)) >>> 0
+  }
+
+  /**
+   * Reseed the generator
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Get the seed the generator was started with
+   */
+  getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1))
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Random element of an array
+   */
+  element<T>(array: T[]): T {
+    return array[Math.floor(this.next() * array.length)]
+  }
+
+  /**
+   * Shuffled copy of an array (Fisher-Yates)
+   */
+  shuffle<T>(array: T[]): T[] {
+    const result = [...array]
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1))
+      const tmp = result[i]
+      result[i] = result[j]
+      result[j] = tmp
+    }
+    return result
+  }
+
+  /**
+   * RFC 4122 v4 formatted id drawn from the generator
+   */
+  uuid(): string {
+    const hex: string[] = []
+    for (let i = 0; i < 32; i++) {
+      hex.push(Math.floor(this.next() * 16).toString(16))
+    }
+    hex[12] = '4'
+    hex[16] = (8 + Math.floor(this.next() * 4)).toString(16)
+    const s = hex.join('')
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`
+  }
+
+  /**
+   * Serialize generator state
+   */
+  serialize(): SerializedRandom {
+    return { seed: this.seed, state: this.state }
+  }
+
+  /**
+   * Restore generator state
+   */
+  deserialize(data: SerializedRandom): void {
+    this.seed = data.seed >>> 0
+    this.state = data.state >>> 0
+  }
+}
+
+// Singleton instance
+let randomInstance: Random | null = null
+
+export function getRandom(): Random {
+  if (!randomInstance) {
+    randomInstance = new Random()
+  }
+  return randomInstance
+}
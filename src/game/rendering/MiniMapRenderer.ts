@@ -0,0 +1,109 @@
+import { TileData } from '@/types/game.types'
+import { Building, BuildingDefinition } from '@/types/building.types'
+import { useCityStore } from '@/stores/cityStore'
+import { GRID_SIZE, SAVE_THUMBNAIL_SIZE, ZONE_COLORS } from '@/lib/constants'
+
+const CATEGORY_COLORS: Record<string, string> = {
+  residential: '#48bb78',
+  commercial: '#4299e1',
+  industrial: '#ecc94b',
+  service: '#9f7aea',
+  park: '#68d391',
+}
+
+const HILL_COLORS = ['#2f4f3a', '#3b6347', '#487855'] // By elevation, lowest first
+
+/**
+ * Draw the city minimap onto a 2D canvas context
+ * Shared by the MiniMap panel and save thumbnails
+ */
+export function drawMiniMap(
+  ctx: CanvasRenderingContext2D,
+  size: number,
+  tiles: Map<string, TileData>,
+  buildings: Map<string, Building>,
+  catalog: BuildingDefinition[]
+): void {
+  const scale = size / GRID_SIZE
+
+  // Clear
+  ctx.fillStyle = '#1a202c'
+  ctx.fillRect(0, 0, size, size)
+
+  // Draw tiles
+  tiles.forEach((tile) => {
+    const x = tile.position.x * scale
+    const y = tile.position.z * scale
+
+    // Draw terrain
+    if (tile.type === 'water') {
+      ctx.fillStyle = '#2b6cb0'
+      ctx.fillRect(x, y, scale, scale)
+    } else if (tile.elevation > 0) {
+      ctx.fillStyle = HILL_COLORS[Math.min(tile.elevation, HILL_COLORS.length) - 1]
+      ctx.fillRect(x, y, scale, scale)
+    }
+
+    // Draw zone
+    if (tile.zone) {
+      ctx.fillStyle = ZONE_COLORS[tile.zone] + '40' // 25% opacity
+      ctx.fillRect(x, y, scale, scale)
+    }
+
+    // Draw road
+    if (tile.roadId) {
+      ctx.fillStyle = '#4a5568'
+      ctx.fillRect(x, y, scale, scale)
+    }
+
+    // Draw building
+    if (tile.buildingId) {
+      const building = buildings.get(tile.buildingId)
+      const def = building && catalog.find(d => d.id === building.definitionId)
+      if (def) {
+        ctx.fillStyle = CATEGORY_COLORS[def.category] ?? '#a0aec0'
+        ctx.fillRect(x, y, scale, scale)
+      }
+    }
+  })
+
+  // Draw grid lines
+  ctx.strokeStyle = '#2d3748'
+  ctx.lineWidth = 0.5
+  for (let i = 0; i <= GRID_SIZE; i += 8) {
+    ctx.beginPath()
+    ctx.moveTo(i * scale, 0)
+    ctx.lineTo(i * scale, size)
+    ctx.stroke()
+
+    ctx.beginPath()
+    ctx.moveTo(0, i * scale)
+    ctx.lineTo(size, i * scale)
+    ctx.stroke()
+  }
+
+  // Draw border
+  ctx.strokeStyle = '#4a5568'
+  ctx.lineWidth = 2
+  ctx.strokeRect(0, 0, size, size)
+}
+
+/**
+ * Render the current city as a PNG data URL for save slots
+ * Returns null outside the browser
+ */
+export function renderMiniMapThumbnail(size: number = SAVE_THUMBNAIL_SIZE): string | null {
+  if (typeof document === 'undefined') return null
+
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  const { tiles, buildings, buildingCatalog } = useCityStore.getState()
+  drawMiniMap(ctx, size, tiles, buildings, buildingCatalog)
+
+  return canvas.toDataURL('image/png')
+}
@@ -0,0 +1,238 @@
+import * as THREE from 'three'
+import { OverlayType, PollutionLayer, TileData } from '@/types/game.types'
+import { CoverageServices, Road } from '@/types/simulation.types'
+import { COVERAGE_SERVICES, getCoverageAt } from '@/game/simulation/ServicesSystem'
+import { getPollution } from '@/game/simulation/PollutionSystem'
+import { getTileHappiness } from '@/game/simulation/PopulationSystem'
+import { GRID_SIZE, GARBAGE_MAX } from '@/lib/constants'
+import { clamp, gridPositionToKey } from '@/lib/utils'
+
+/**
+ * City state a heatmap reads besides the tiles
+ */
+export interface HeatmapContext {
+  roads: Map<string, Road>
+  services: CoverageServices
+  pollutionLayer: PollutionLayer
+  cityHappiness: number // Happiness everyone shares, from getCityHappiness
+}
+
+export interface HeatmapStop {
+  value: number // 0-100
+  color: string
+  label: string
+}
+
+export interface HeatmapDefinition {
+  label: string
+  stops: HeatmapStop[]
+  getValue: (tile: TileData, context: HeatmapContext) => number | null // null leaves the tile clear
+  live?: boolean // Source is updated in place and has to be resampled
+}
+
+const POLLUTION_LABELS: Record<PollutionLayer, string> = {
+  air: 'Hava Kirliliği',
+  ground: 'Toprak Kirliliği',
+  noise: 'Gürültü',
+}
+
+const OPACITY = 0.55
+
+// Below this, pollution and garbage are left clear so the map stays readable
+const MIN_VISIBLE = 1
+
+function isLand(tile: TileData): boolean {
+  return tile.type !== 'water'
+}
+
+/**
+ * Gradient and value of every overlay drawn as a heatmap
+ * The water overlay shows the pipe network instead
+ */
+export const HEATMAPS: Partial<Record<OverlayType, HeatmapDefinition>> = {
+  traffic: {
+    label: 'Trafik Yoğunluğu',
+    stops: [
+      { value: 0, color: '#22c55e', label: 'Akıcı' },
+      { value: 50, color: '#eab308', label: 'Yoğun' },
+      { value: 100, color: '#dc2626', label: 'Tıkalı' },
+    ],
+    getValue: (tile, { roads }) => {
+      const road = tile.roadId ? roads.get(tile.roadId) : undefined
+      return road ? road.trafficLoad * 100 : null
+    },
+    live: true,
+  },
+  pollution: {
+    label: 'Kirlilik',
+    stops: [
+      { value: 0, color: '#22c55e', label: 'Temiz' },
+      { value: 30, color: '#eab308', label: 'Orta' },
+      { value: 60, color: '#dc2626', label: 'Yüksek' },
+      { value: 100, color: '#7e22ce', label: 'Tehlikeli' },
+    ],
+    getValue: (tile, { pollutionLayer }) => {
+      const value = getPollution(tile, pollutionLayer)
+      return value >= MIN_VISIBLE ? value : null
+    },
+  },
+  landValue: {
+    label: 'Arazi Değeri',
+    stops: [
+      { value: 0, color: '#dc2626', label: 'Düşük' },
+      { value: 50, color: '#eab308', label: 'Orta' },
+      { value: 100, color: '#22c55e', label: 'Yüksek' },
+    ],
+    getValue: (tile) => (isLand(tile) ? tile.landValue : null),
+  },
+  crime: {
+    label: 'Suç',
+    stops: [
+      { value: 0, color: '#22c55e', label: 'Güvenli' },
+      { value: 30, color: '#eab308', label: 'Orta' },
+      { value: 60, color: '#dc2626', label: 'Yüksek' },
+      { value: 100, color: '#7e22ce', label: 'Çok Yüksek' },
+    ],
+    getValue: (tile) => (isLand(tile) ? tile.crime : null),
+  },
+  happiness: {
+    label: 'Mutluluk',
+    stops: [
+      { value: 0, color: '#dc2626', label: 'Mutsuz' },
+      { value: 50, color: '#eab308', label: 'Normal' },
+      { value: 100, color: '#3b82f6', label: 'Mutlu' },
+    ],
+    // Only where people live or could live
+    getValue: (tile, { services, cityHappiness }) =>
+      tile.zone === 'residential' ? getTileHappiness(tile, services, cityHappiness) : null,
+  },
+  services: {
+    label: 'Hizmet Kapsamı',
+    stops: [
+      { value: 0, color: '#dc2626', label: 'Yok' },
+      { value: 50, color: '#eab308', label: 'Kısmi' },
+      { value: 100, color: '#14b8a6', label: 'Tam' },
+    ],
+    getValue: (tile, { services }) => {
+      if (!isLand(tile)) return null
+      const key = gridPositionToKey(tile.position)
+      const total = COVERAGE_SERVICES.reduce((sum, type) => sum + getCoverageAt(services, type, key), 0)
+      return (total / COVERAGE_SERVICES.length) * 100
+    },
+  },
+  garbage: {
+    label: 'Toplanmayan Çöp',
+    stops: [
+      { value: 0, color: '#22c55e', label: 'Temiz' },
+      { value: 50, color: '#a16207', label: 'Birikmiş' },
+      { value: 100, color: '#dc2626', label: 'Dolu' },
+    ],
+    getValue: (tile) => {
+      if (!tile.buildingId && tile.garbage < MIN_VISIBLE) return null
+      return (tile.garbage / GARBAGE_MAX) * 100
+    },
+  },
+}
+
+/**
+ * Title shown in the legend and tooltip of an overlay
+ */
+export function getHeatmapLabel(overlay: OverlayType, pollutionLayer: PollutionLayer): string {
+  if (overlay === 'pollution') return POLLUTION_LABELS[pollutionLayer]
+  return HEATMAPS[overlay]?.label ?? ''
+}
+
+/**
+ * Color of a value along a gradient
+ */
+export function sampleGradient(stops: HeatmapStop[], value: number, target = new THREE.Color()): THREE.Color {
+  const v = clamp(value, stops[0].value, stops[stops.length - 1].value)
+  let i = 1
+  while (i < stops.length - 1 && v > stops[i].value) i++
+  const from = stops[i - 1]
+  const to = stops[i]
+  const t = to.value === from.value ? 0 : (v - from.value) / (to.value - from.value)
+  return target.set(from.color).lerp(new THREE.Color(to.color), t)
+}
+
+/**
+ * CSS gradient matching a heatmap, for its legend
+ */
+export function getLegendGradient(stops: HeatmapStop[]): string {
+  return `linear-gradient(to right, ${stops.map(s => `${s.color} ${s.value}%`).join(', ')})`
+}
+
+/**
+ * One texel per tile, colored by the selected overlay
+ * Only tiles whose data changed since the last update are recolored
+ */
+export class HeatmapTexture {
+  readonly texture: THREE.DataTexture
+
+  private data = new Uint8Array(GRID_SIZE * GRID_SIZE * 4)
+  private values = new Float32Array(GRID_SIZE * GRID_SIZE).fill(NaN)
+  private tiles: Map<string, TileData> | null = null
+  private color = new THREE.Color()
+
+  constructor() {
+    this.texture = new THREE.DataTexture(this.data, GRID_SIZE, GRID_SIZE, THREE.RGBAFormat)
+    this.texture.magFilter = THREE.NearestFilter
+    this.texture.minFilter = THREE.NearestFilter
+    this.texture.needsUpdate = true
+  }
+
+  /**
+   * Recolor the tiles that changed. With full set every tile is sampled
+   * again, for when the data beside the tiles changed.
+   * Returns whether the texture was touched
+   */
+  update(definition: HeatmapDefinition, tiles: Map<string, TileData>, context: HeatmapContext, full: boolean): boolean {
+    const previous = full ? null : this.tiles
+    let dirty = false
+
+    tiles.forEach((tile, key) => {
+      // Tiles are replaced, never mutated, when their data changes
+      if (previous?.get(key) === tile) return
+
+      const value = definition.getValue(tile, context)
+      const i = this.index(tile)
+      const current = this.values[i]
+      if (value === null ? Number.isNaN(current) : Math.abs(value - current) < 0.05) return
+
+      this.values[i] = value ?? NaN
+      if (value === null) {
+        this.data[i * 4 + 3] = 0
+      } else {
+        sampleGradient(definition.stops, value, this.color)
+        this.data[i * 4] = Math.round(this.color.r * 255)
+        this.data[i * 4 + 1] = Math.round(this.color.g * 255)
+        this.data[i * 4 + 2] = Math.round(this.color.b * 255)
+        this.data[i * 4 + 3] = Math.round(OPACITY * 255)
+      }
+      dirty = true
+    })
+
+    this.tiles = tiles
+    if (dirty) this.texture.needsUpdate = true
+    return dirty
+  }
+
+  /**
+   * Clear every tile, before switching to another overlay
+   */
+  clear(): void {
+    this.values.fill(NaN)
+    this.data.fill(0)
+    this.tiles = null
+    this.texture.needsUpdate = true
+  }
+
+  dispose(): void {
+    this.texture.dispose()
+  }
+
+  // Texture rows run from the far edge of the grid to the near one
+  private index(tile: TileData): number {
+    return (GRID_SIZE - 1 - tile.position.z) * GRID_SIZE + tile.position.x
+  }
+}
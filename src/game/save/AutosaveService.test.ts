@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AutosaveService } from './AutosaveService'
+import { useCityStore } from '@/stores/cityStore'
+import { useGameStore } from '@/stores/gameStore'
+import { getCommandHistory } from '@/game/core/CommandHistory'
+import { gridPositionToKey } from '@/lib/utils'
+
+describe('AutosaveService', () => {
+  let autosave: AutosaveService
+
+  beforeEach(async () => {
+    // Without IndexedDB the storage backend falls back to localStorage
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    })
+
+    useCityStore.getState().reset()
+    useGameStore.setState({ isPaused: false })
+    autosave = new AutosaveService()
+    await autosave.saveNow()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('skips a running city nobody changed', async () => {
+    const key = gridPositionToKey({ x: 3, z: 3 })
+    useGameStore.getState().advanceTime(120)
+    useCityStore.getState().updateTiles(new Map([[key, { landValue: 70, crime: 5 }]]))
+
+    expect(await autosave.tick()).toBeNull()
+  })
+
+  it('saves after the player edits the city', async () => {
+    getCommandHistory().execute('Yol', () => useCityStore.getState().placeRoad({ x: 3, z: 3 }))
+
+    expect(await autosave.tick()).toMatchObject({ name: 'Otomatik Kayıt' })
+  })
+
+  it('does not save while paused', async () => {
+    useGameStore.setState({ isPaused: true })
+    useCityStore.getState().placeRoad({ x: 3, z: 3 })
+
+    expect(await autosave.tick()).toBeNull()
+  })
+})
@@ -0,0 +1,168 @@
+import { SaveSlotMeta } from '@/types/game.types'
+import { useCityStore } from '@/stores/cityStore'
+import { useGameStore } from '@/stores/gameStore'
+import { useUIStore } from '@/stores/uiStore'
+import { GameEvents } from '@/game/core/EventBus'
+import { getCommandHistory } from '@/game/core/CommandHistory'
+import { renderMiniMapThumbnail } from '@/game/rendering/MiniMapRenderer'
+import {
+  AUTOSAVE_INTERVAL,
+  AUTOSAVE_SLOT_COUNT,
+  AUTOSAVE_SLOT_PREFIX,
+} from '@/lib/constants'
+import { getSaveSlotManager } from './SaveSlotManager'
+
+export const AUTOSAVE_RECOVERY_MODAL = 'autosaveRecovery'
+
+/**
+ * Check whether a slot was written by the autosave service
+ */
+export function isAutosaveSlot(slot: SaveSlotMeta): boolean {
+  return slot.id.startsWith(AUTOSAVE_SLOT_PREFIX)
+}
+
+/**
+ * What the city looked like at the last autosave, to skip saving unchanged cities
+ * Leaves out the clock and the stats the simulation rewrites every tick, so a
+ * running city nobody touches is not saved over and over
+ */
+interface AutosaveMarker {
+  cityName: string
+  edits: number // Command history revision
+  buildings: number
+  roads: number
+  population: number
+}
+
+/**
+ * Periodic autosave into a rotating set of slots
+ */
+export class AutosaveService {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private marker: AutosaveMarker | null = null
+  private isSaving = false
+
+  /**
+   * Start saving every interval (wall clock) and offer recovery of a newer autosave
+   */
+  start(interval: number = AUTOSAVE_INTERVAL): void {
+    if (this.timer) return
+
+    this.marker = this.createMarker()
+    this.timer = setInterval(() => {
+      this.tick()
+    }, interval)
+
+    this.promptRecovery()
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Save if the game is running and something changed since the last autosave
+   */
+  async tick(): Promise<SaveSlotMeta | null> {
+    if (this.isSaving || useGameStore.getState().isPaused || !this.hasChanged()) {
+      return null
+    }
+    return this.saveNow()
+  }
+
+  /**
+   * Write an autosave into the oldest autosave slot
+   */
+  async saveNow(): Promise<SaveSlotMeta | null> {
+    this.isSaving = true
+    try {
+      const marker = this.createMarker()
+      const slotId = await this.getNextSlotId()
+      const slot = await getSaveSlotManager().write(
+        slotId,
+        useCityStore.getState().snapshot(),
+        'Otomatik Kayıt',
+        renderMiniMapThumbnail()
+      )
+
+      this.marker = marker
+      GameEvents.gameSaved({ slotId: slot.id, autosave: true })
+      return slot
+    } catch (error) {
+      console.error('[AutosaveService] Autosave failed:', error)
+      return null
+    } finally {
+      this.isSaving = false
+    }
+  }
+
+  /**
+   * Latest autosave, if it is newer than every manual save
+   */
+  async getRecoverableAutosave(): Promise<SaveSlotMeta | null> {
+    const slots = await getSaveSlotManager().list()
+    const latestAutosave = slots.find(isAutosaveSlot)
+    const latestManual = slots.find(slot => !isAutosaveSlot(slot))
+
+    if (!latestAutosave) return null
+    if (latestManual && latestManual.timestamp >= latestAutosave.timestamp) return null
+    return latestAutosave
+  }
+
+  private async promptRecovery(): Promise<void> {
+    try {
+      const slot = await this.getRecoverableAutosave()
+      if (slot) {
+        useUIStore.getState().openModal(AUTOSAVE_RECOVERY_MODAL, slot)
+      }
+    } catch (error) {
+      console.error('[AutosaveService] Failed to check autosaves:', error)
+    }
+  }
+
+  /**
+   * Pick an unused autosave slot, or the one written longest ago
+   */
+  private async getNextSlotId(): Promise<string> {
+    const slots = await getSaveSlotManager().list()
+    let oldest: SaveSlotMeta | null = null
+
+    for (let i = 0; i < AUTOSAVE_SLOT_COUNT; i++) {
+      const id = AUTOSAVE_SLOT_PREFIX + i
+      const slot = slots.find(s => s.id === id)
+      if (!slot) return id
+      if (!oldest || slot.timestamp < oldest.timestamp) oldest = slot
+    }
+
+    return oldest ? oldest.id : AUTOSAVE_SLOT_PREFIX + 0
+  }
+
+  private createMarker(): AutosaveMarker {
+    const { cityName, buildings, roads, population } = useCityStore.getState()
+    return {
+      cityName,
+      edits: getCommandHistory().getRevision(),
+      buildings: buildings.size,
+      roads: roads.size,
+      population: population.total,
+    }
+  }
+
+  private hasChanged(): boolean {
+    if (!this.marker) return true
+    const current = this.createMarker()
+    return (
+      current.cityName !== this.marker.cityName ||
+      current.edits !== this.marker.edits ||
+      current.buildings !== this.marker.buildings ||
+      current.roads !== this.marker.roads ||
+      current.population !== this.marker.population
+    )
+  }
+}
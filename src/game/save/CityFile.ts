@@ -0,0 +1,116 @@
+import { SaveData } from '@/types/game.types'
+import { CITY_FILE_EXTENSION } from '@/lib/constants'
+import { SaveDataError, migrateSaveData } from './SaveMigrations'
+
+/**
+ * Portable .mycity file format
+ *
+ *   0  6 bytes  magic "MYCITY"
+ *   6  1 byte   file format version
+ *   7  1 byte   reserved (0)
+ *   8  4 bytes  CRC-32 of the uncompressed JSON (big endian)
+ *  12  4 bytes  uncompressed JSON length (big endian)
+ *  16  ...      gzip-compressed SaveData JSON
+ */
+
+const MAGIC = 'MYCITY'
+const FORMAT_VERSION = 1
+const HEADER_SIZE = 16
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+async function transform(input: Blob, stream: GenericTransformStream): Promise<ArrayBuffer> {
+  return new Response(input.stream().pipeThrough(stream)).arrayBuffer()
+}
+
+/**
+ * Encode save data as a .mycity file
+ */
+export async function encodeCityFile(data: SaveData): Promise<Blob> {
+  const text = JSON.stringify(data)
+  const json = new TextEncoder().encode(text)
+  const compressed = await transform(new Blob([text]), new CompressionStream('gzip'))
+
+  const header = new Uint8Array(HEADER_SIZE)
+  const view = new DataView(header.buffer)
+  for (let i = 0; i < MAGIC.length; i++) {
+    header[i] = MAGIC.charCodeAt(i)
+  }
+  header[6] = FORMAT_VERSION
+  view.setUint32(8, crc32(json))
+  view.setUint32(12, json.length)
+
+  return new Blob([header, compressed], { type: 'application/octet-stream' })
+}
+
+/**
+ * Decode a .mycity file, verify it and migrate it to the current save version
+ * Throws SaveDataError with a player-facing message on any problem
+ */
+export async function decodeCityFile(buffer: ArrayBuffer): Promise<SaveData> {
+  const bytes = new Uint8Array(buffer)
+  const magic = String.fromCharCode(...Array.from(bytes.subarray(0, MAGIC.length)))
+
+  if (bytes.length < HEADER_SIZE || magic !== MAGIC) {
+    throw new SaveDataError('Geçersiz şehir dosyası.')
+  }
+  if (bytes[6] > FORMAT_VERSION) {
+    throw new SaveDataError(`Dosya daha yeni bir sürümle oluşturulmuş (v${bytes[6]}).`)
+  }
+
+  const view = new DataView(buffer)
+  const checksum = view.getUint32(8)
+  const length = view.getUint32(12)
+
+  let json: Uint8Array
+  try {
+    json = new Uint8Array(
+      await transform(new Blob([buffer.slice(HEADER_SIZE)]), new DecompressionStream('gzip'))
+    )
+  } catch {
+    throw new SaveDataError('Şehir dosyası açılamadı.')
+  }
+
+  if (json.length !== length || crc32(json) !== checksum) {
+    throw new SaveDataError('Şehir dosyası bozuk (sağlama toplamı uyuşmuyor).')
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(new TextDecoder().decode(json))
+  } catch {
+    throw new SaveDataError('Şehir dosyası okunamadı.')
+  }
+
+  return migrateSaveData(raw)
+}
+
+/**
+ * File name for an exported city
+ */
+export function getCityFileName(data: SaveData): string {
+  const slug = data.cityName
+    .trim()
+    .replace(/[\s\\/:*?"<>|.]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'sehir'}-gun-${data.gameTime.day}${CITY_FILE_EXTENSION}`
+}
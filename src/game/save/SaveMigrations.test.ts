@@ -0,0 +1,107 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { SAVE_MIGRATIONS, SaveDataError, migrateSaveData } from './SaveMigrations'
+import { validateSaveData } from './SaveSchema'
+import { SAVE_VERSION } from '@/lib/constants'
+
+// One fixture per save version, written in that version's format
+const VERSIONS = ['1', ...SAVE_MIGRATIONS.map(m => m.to)]
+
+function readFixture(version: string): Record<string, unknown> {
+  const file = new URL(`./__fixtures__/v${version}.json`, import.meta.url)
+  return JSON.parse(readFileSync(file, 'utf8'))
+}
+
+describe('migrateSaveData', () => {
+  it('has a migration for every version up to SAVE_VERSION', () => {
+    expect(VERSIONS[VERSIONS.length - 1]).toBe(SAVE_VERSION)
+  })
+
+  it.each(VERSIONS)('upgrades a v%s save to a valid current save', (version) => {
+    const fixture = readFixture(version)
+    expect(fixture.version).toBe(version)
+
+    const data = migrateSaveData(fixture)
+
+    expect(data.version).toBe(SAVE_VERSION)
+    expect(validateSaveData(data)).toEqual([])
+  })
+
+  it('does not modify the input', () => {
+    const fixture = readFixture('1')
+    const copy = structuredClone(fixture)
+
+    migrateSaveData(fixture)
+
+    expect(fixture).toEqual(copy)
+  })
+
+  it('seeds the RNG and rebuilds road connections of v1 saves', () => {
+    const data = migrateSaveData(readFixture('1'))
+    const [west, middle, east] = data.roads
+
+    expect(data.rng).toEqual({ seed: 1700000000000 >>> 0, state: 1700000000000 >>> 0 })
+    expect(middle.connections).toEqual([
+      { direction: 'east', connectedTo: east.id },
+      { direction: 'west', connectedTo: west.id },
+    ])
+    expect(data.population.employmentRate).toBeCloseTo(40 / 72)
+  })
+
+  it('fills in the building state added by v3 to v9', () => {
+    const [building] = migrateSaveData(readFixture('2')).buildings
+
+    expect(building).toMatchObject({
+      condition: 100,
+      isActive: true,
+      hasRoadAccess: true,
+      builtAt: 0,
+      abandoned: false,
+    })
+  })
+
+  it('lays pipes under the roads and buildings of saves from before pipes', () => {
+    const { tiles } = migrateSaveData(readFixture('4'))
+    const piped = tiles.filter(t => t.pipe).map(t => t.id).sort()
+
+    expect(piped).toEqual(['10,10', '11,10', '12,10', '12,5', '15,11'])
+  })
+
+  it('moves v7 pollution into the ground layer', () => {
+    const data = migrateSaveData(readFixture('7'))
+    const tile = data.tiles.find(t => t.id === '12,10')
+
+    expect(tile).toMatchObject({ pollution: 0, groundPollution: 30, noise: 0 })
+  })
+
+  it('keeps state that later versions already store', () => {
+    const data = migrateSaveData(readFixture('9'))
+    const tile = data.tiles.find(t => t.id === '15,11')
+
+    expect(data.buildings[1]).toMatchObject({ condition: 82, builtAt: 1440, abandoned: true })
+    expect(tile).toMatchObject({ pipe: true, fire: 20, garbage: 15, groundPollution: 12, noise: 8 })
+    expect(data.zoneDemand).toEqual({ residential: 61, commercial: 27, industrial: 14 })
+    expect(data.economy.maintenanceFunding).toBe(100)
+  })
+
+  it('rejects saves from a newer version', () => {
+    const fixture = { ...readFixture(SAVE_VERSION), version: String(Number(SAVE_VERSION) + 1) }
+
+    expect(() => migrateSaveData(fixture)).toThrow(SaveDataError)
+  })
+
+  it('rejects saves without a version', () => {
+    const { version: _, ...fixture } = readFixture('1')
+
+    expect(() => migrateSaveData(fixture)).toThrow(SaveDataError)
+  })
+
+  it('reports where invalid data fails the schema', () => {
+    const fixture = readFixture(SAVE_VERSION) as { buildings: Record<string, unknown>[] }
+    fixture.buildings[0].condition = null
+
+    expect(() => migrateSaveData(fixture)).toThrow(
+      expect.objectContaining({ details: ['save.buildings[0].condition: expected number'] })
+    )
+  })
+})
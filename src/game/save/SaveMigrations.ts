@@ -0,0 +1,245 @@
+import { SaveData } from '@/types/game.types'
+import { DEFAULT_MAINTENANCE_FUNDING, SAVE_VERSION } from '@/lib/constants'
+import { validateSaveData } from './SaveSchema'
+
+/**
+ * Raised when save data cannot be upgraded or fails validation
+ */
+export class SaveDataError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message)
+    this.name = 'SaveDataError'
+  }
+}
+
+type RawSave = Record<string, unknown>
+
+export interface SaveMigration {
+  from: string
+  to: string
+  description: string
+  migrate: (data: RawSave) => RawSave
+}
+
+/**
+ * Registered migrations, one per version step.
+ * Any change to TileData, Building or Road must add an entry here,
+ * bump SAVE_VERSION and add a fixture of the new version to __fixtures__
+ * The persisted city is versioned with SAVE_VERSION and upgraded through
+ * the same entries
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: '1',
+    to: '2',
+    description: 'Add RNG state for deterministic replays',
+    migrate: (data) => {
+      const seed = typeof data.timestamp === 'number' ? data.timestamp >>> 0 : 0
+      return {
+        ...data,
+        rng: { seed, state: seed },
+      }
+    },
+  },
+  {
+    from: '2',
+    to: '3',
+    description: 'Store full building, road, economy and population state',
+    migrate: (data) => {
+      const timestamp = typeof data.timestamp === 'number' ? data.timestamp : 0
+      const buildings = asArray(data.buildings)
+      const roads = asArray(data.roads)
+      const economy = asRecord(data.economy)
+      const population = asRecord(data.population)
+
+      // v2 connections held garbage positions; rebuild them from neighboring roads
+      const roadIds = new Map<string, string>()
+      roads.forEach(r => {
+        const pos = asRecord(r.position)
+        roadIds.set(`${pos.x},${pos.z}`, r.id as string)
+      })
+      const neighbors: [string, number, number][] = [
+        ['north', 0, -1],
+        ['south', 0, 1],
+        ['east', 1, 0],
+        ['west', -1, 0],
+      ]
+
+      const total = typeof population.total === 'number' ? population.total : 0
+      const employed = typeof population.employed === 'number' ? population.employed : 0
+      const workers = Math.floor(total * 0.6)
+
+      return {
+        ...data,
+        buildings: buildings.map(b => ({
+          condition: 100,
+          isActive: true,
+          isPowered: false,
+          hasWater: false,
+          createdAt: timestamp,
+          lastUpdate: timestamp,
+          ...b,
+        })),
+        roads: roads.map(r => {
+          const pos = asRecord(r.position) as { x: number; z: number }
+          const connections = neighbors
+            .map(([direction, dx, dz]) => ({
+              direction,
+              connectedTo: roadIds.get(`${pos.x + dx},${pos.z + dz}`) ?? null,
+            }))
+            .filter(c => c.connectedTo !== null)
+
+          return { ...r, connections, trafficLoad: 0 }
+        }),
+        economy: {
+          taxIncome: { residential: 0, commercial: 0, industrial: 0, total: 0 },
+          serviceExpenses: {
+            police: 0, fire: 0, health: 0, education: 0,
+            power: 0, water: 0, waste: 0, total: 0,
+          },
+          maintenanceExpenses: 0,
+          history: [],
+          ...economy,
+        },
+        population: {
+          residential: total,
+          workers,
+          employmentRate: workers > 0 ? employed / workers : 0,
+          health: 70,
+          education: 50,
+          growth: 0,
+          births: 0,
+          deaths: 0,
+          migration: 0,
+          demographics: { children: 0, adults: 0, elderly: 0 },
+          ...population,
+        },
+        zoneDemand: { residential: 50, commercial: 30, industrial: 20 },
+        systems: {},
+      }
+    },
+  },
+  {
+    from: '3',
+    to: '4',
+    description: 'Track road access per building',
+    migrate: (data) => ({
+      ...data,
+      // Recomputed on the next utility update
+      buildings: asArray(data.buildings).map(b => ({ hasRoadAccess: true, ...b })),
+    }),
+  },
+  {
+    from: '4',
+    to: '5',
+    description: 'Add the underground water pipe layer',
+    migrate: (data) => ({
+      ...data,
+      // Water used to reach every lot along the roads; lay pipes under roads
+      // and buildings so the city keeps the service it had
+      tiles: asArray(data.tiles).map(t => ({
+        pipe: t.type !== 'water' && Boolean(t.roadId || t.buildingId),
+        ...t,
+      })),
+    }),
+  },
+  {
+    from: '5',
+    to: '6',
+    description: 'Add fires and building age',
+    migrate: (data) => ({
+      ...data,
+      tiles: asArray(data.tiles).map(t => ({ fire: 0, ...t })),
+      buildings: asArray(data.buildings).map(b => ({ builtAt: 0, ...b })),
+    }),
+  },
+  {
+    from: '6',
+    to: '7',
+    description: 'Track uncollected garbage per tile',
+    migrate: (data) => ({
+      ...data,
+      tiles: asArray(data.tiles).map(t => ({ garbage: 0, ...t })),
+    }),
+  },
+  {
+    from: '7',
+    to: '8',
+    description: 'Split pollution into air, ground and noise layers',
+    migrate: (data) => ({
+      ...data,
+      // v7 pollution only came from sewage in water; it is ground pollution now
+      tiles: asArray(data.tiles).map(({ pollution, ...t }) => ({
+        pollution: 0,
+        groundPollution: pollution ?? 0,
+        noise: 0,
+        ...t,
+      })),
+    }),
+  },
+  {
+    from: '8',
+    to: '9',
+    description: 'Track abandoned buildings',
+    migrate: (data) => ({
+      ...data,
+      buildings: asArray(data.buildings).map(b => ({ abandoned: false, ...b })),
+    }),
+  },
+  {
+    from: '9',
+    to: '10',
+    description: 'Add the maintenance budget',
+    migrate: (data) => ({
+      ...data,
+      economy: { maintenanceFunding: DEFAULT_MAINTENANCE_FUNDING, ...asRecord(data.economy) },
+    }),
+  },
+]
+
+function asRecord(value: unknown): RawSave {
+  return typeof value === 'object' && value !== null ? value as RawSave : {}
+}
+
+function asArray(value: unknown): RawSave[] {
+  return Array.isArray(value) ? value.map(asRecord) : []
+}
+
+/**
+ * Upgrade raw save data to the current version and validate it
+ * Throws SaveDataError instead of returning partially loaded data
+ */
+export function migrateSaveData(raw: unknown): SaveData {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new SaveDataError('Kayıt verisi okunamadı.')
+  }
+
+  let data = raw as RawSave
+  if (typeof data.version !== 'string') {
+    throw new SaveDataError('Kayıt sürümü bulunamadı.')
+  }
+
+  const visited = new Set<string>()
+  while (data.version !== SAVE_VERSION) {
+    const version = data.version as string
+    const migration = SAVE_MIGRATIONS.find(m => m.from === version)
+
+    if (!migration || visited.has(version)) {
+      throw new SaveDataError(
+        Number(version) > Number(SAVE_VERSION)
+          ? `Kayıt daha yeni bir sürümle oluşturulmuş (v${version}).`
+          : `Desteklenmeyen kayıt sürümü (v${version}).`
+      )
+    }
+
+    visited.add(version)
+    data = { ...migration.migrate(data), version: migration.to }
+  }
+
+  const errors = validateSaveData(data)
+  if (errors.length > 0) {
+    throw new SaveDataError('Kayıt verisi bozuk.', errors)
+  }
+
+  return data as unknown as SaveData
+}
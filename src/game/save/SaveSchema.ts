@@ -0,0 +1,188 @@
+/**
+ * Minimal structural schema for SaveData
+ * Describes the current save version only; older versions are upgraded
+ * by the migration pipeline before they are validated
+ */
+
+type Validator = (value: unknown, path: string, errors: string[]) => void
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const primitive = (type: 'string' | 'number' | 'boolean'): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      errors.push(`${path}: expected ${type}`)
+    }
+  }
+
+const nullable = (inner: Validator): Validator =>
+  (value, path, errors) => {
+    if (value !== null) inner(value, path, errors)
+  }
+
+const oneOf = (...options: string[]): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== 'string' || !options.includes(value)) {
+      errors.push(`${path}: expected one of ${options.join(', ')}`)
+    }
+  }
+
+const object = (shape: Record<string, Validator>): Validator =>
+  (value, path, errors) => {
+    if (!isObject(value)) {
+      errors.push(`${path}: expected object`)
+      return
+    }
+    for (const [key, validate] of Object.entries(shape)) {
+      validate(value[key], `${path}.${key}`, errors)
+    }
+  }
+
+const array = (item: Validator): Validator =>
+  (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected array`)
+      return
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, errors))
+  }
+
+const record: Validator = (value, path, errors) => {
+  if (!isObject(value)) errors.push(`${path}: expected object`)
+}
+
+const string = primitive('string')
+const number = primitive('number')
+const boolean = primitive('boolean')
+
+const gridPosition = object({ x: number, z: number })
+
+const zoneType = oneOf('residential', 'commercial', 'industrial')
+
+const zoneValues = object({ residential: number, commercial: number, industrial: number })
+
+const SAVE_SCHEMA = object({
+  version: string,
+  timestamp: number,
+  cityName: string,
+  gameTime: object({
+    day: number,
+    hour: number,
+    minute: number,
+    totalMinutes: number,
+    speed: oneOf('paused', 'normal', 'fast', 'ultra'),
+    isDaytime: boolean,
+  }),
+  tiles: array(object({
+    id: string,
+    position: gridPosition,
+    type: oneOf('empty', 'building', 'road', 'water', 'park', 'special', 'rubble'),
+    buildingId: nullable(string),
+    roadId: nullable(string),
+    zone: nullable(zoneType),
+    pipe: boolean,
+    fire: number,
+    garbage: number,
+    elevation: number,
+    landValue: number,
+    pollution: number,
+    groundPollution: number,
+    noise: number,
+    crime: number,
+    traffic: number,
+  })),
+  buildings: array(object({
+    id: string,
+    type: string,
+    position: gridPosition,
+    rotation: number,
+    level: number,
+    occupancy: number,
+    condition: number,
+    isActive: boolean,
+    isPowered: boolean,
+    hasWater: boolean,
+    hasRoadAccess: boolean,
+    abandoned: boolean,
+    builtAt: number,
+    createdAt: number,
+    lastUpdate: number,
+  })),
+  roads: array(object({
+    id: string,
+    position: gridPosition,
+    connections: array(object({
+      direction: oneOf('north', 'south', 'east', 'west'),
+      connectedTo: nullable(string),
+    })),
+    type: oneOf('road', 'avenue', 'highway', 'bridge', 'tunnel'),
+    trafficLoad: number,
+  })),
+  economy: object({
+    balance: number,
+    income: number,
+    expenses: number,
+    taxRates: zoneValues,
+    taxIncome: object({
+      residential: number,
+      commercial: number,
+      industrial: number,
+      total: number,
+    }),
+    serviceExpenses: object({
+      police: number,
+      fire: number,
+      health: number,
+      education: number,
+      power: number,
+      water: number,
+      waste: number,
+      total: number,
+    }),
+    maintenanceExpenses: number,
+    maintenanceFunding: number,
+    history: array(object({
+      day: number,
+      income: number,
+      expenses: number,
+      balance: number,
+    })),
+  }),
+  population: object({
+    total: number,
+    residential: number,
+    workers: number,
+    employed: number,
+    unemployed: number,
+    employmentRate: number,
+    happiness: number,
+    health: number,
+    education: number,
+    growth: number,
+    births: number,
+    deaths: number,
+    migration: number,
+    demographics: object({
+      children: number,
+      adults: number,
+      elderly: number,
+    }),
+  }),
+  zoneDemand: zoneValues,
+  rng: object({
+    seed: number,
+    state: number,
+  }),
+  systems: record,
+})
+
+/**
+ * Validate save data against the current schema
+ * Returns a list of problems; an empty list means the data is valid
+ */
+export function validateSaveData(data: unknown): string[] {
+  const errors: string[] = []
+  SAVE_SCHEMA(data, 'save', errors)
+  return errors
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SaveSlotManager } from './SaveSlotManager'
+import { SaveData } from '@/types/game.types'
+
+function createSave(cityName: string): SaveData {
+  return {
+    cityName,
+    timestamp: 1,
+    gameTime: { day: 1 },
+    population: { total: 0 },
+    economy: { balance: 0 },
+  } as SaveData
+}
+
+describe('SaveSlotManager', () => {
+  let slots: SaveSlotManager
+
+  beforeEach(() => {
+    // Without IndexedDB the storage backend falls back to localStorage
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    })
+    slots = new SaveSlotManager()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps every slot when saves overlap', async () => {
+    await Promise.all([
+      slots.write(null, createSave('A')),
+      slots.write(null, createSave('B')),
+      slots.write(null, createSave('C')),
+    ])
+
+    const names = (await slots.list()).map(slot => slot.name).sort()
+    expect(names).toEqual(['A', 'B', 'C'])
+  })
+
+  it('keeps a rename and a save made at the same time', async () => {
+    const slot = await slots.write(null, createSave('A'))
+
+    await Promise.all([
+      slots.rename(slot.id, 'Renamed'),
+      slots.write(null, createSave('B')),
+      slots.delete('missing'),
+    ])
+
+    const names = (await slots.list()).map(slot => slot.name).sort()
+    expect(names).toEqual(['B', 'Renamed'])
+  })
+
+  it('keeps the name of a slot that is saved over', async () => {
+    const slot = await slots.write(null, createSave('A'), 'Kayıt 1')
+
+    const saved = await slots.write(slot.id, createSave('A'))
+
+    expect(saved.name).toBe('Kayıt 1')
+    expect(await slots.list()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,166 @@
+import { SaveData, SaveSlotMeta } from '@/types/game.types'
+import { STORAGE_KEYS } from '@/lib/constants'
+import { generateId } from '@/lib/utils'
+import { migrateSaveData } from './SaveMigrations'
+import { getStorage } from './StorageBackend'
+
+/**
+ * Named save slots
+ * Keeps a metadata index under one key and each slot's SaveData under its own key,
+ * separate from the key the city store persists to
+ */
+export class SaveSlotManager {
+  // Index updates run one after another so concurrent saves don't drop each other's entries
+  private indexQueue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * List all slots, newest first
+   */
+  async list(): Promise<SaveSlotMeta[]> {
+    const index = await this.readIndex()
+    return index.sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  /**
+   * Get slot metadata
+   */
+  async get(id: string): Promise<SaveSlotMeta | undefined> {
+    const index = await this.readIndex()
+    return index.find(slot => slot.id === id)
+  }
+
+  /**
+   * Read a slot's save data
+   */
+  async read(id: string): Promise<SaveData | null> {
+    const saved = await getStorage().getItem(this.slotKey(id))
+    return saved ? JSON.parse(saved) : null
+  }
+
+  /**
+   * Write save data to a slot, creating it when the id is null or unknown
+   */
+  async write(
+    id: string | null,
+    data: SaveData,
+    name?: string,
+    thumbnail: string | null = null
+  ): Promise<SaveSlotMeta> {
+    const slotId = id ?? generateId()
+    await getStorage().setItem(this.slotKey(slotId), JSON.stringify(data))
+
+    const written = await this.updateIndex(index => {
+      const existing = index.find(slot => slot.id === slotId)
+      const meta: SaveSlotMeta = {
+        id: slotId,
+        name: name ?? existing?.name ?? data.cityName,
+        cityName: data.cityName,
+        population: data.population.total,
+        balance: data.economy.balance,
+        day: data.gameTime.day,
+        timestamp: data.timestamp,
+        thumbnail,
+      }
+      return [...index.filter(slot => slot.id !== slotId), meta]
+    })
+    return written.find(slot => slot.id === slotId) as SaveSlotMeta
+  }
+
+  /**
+   * Rename a slot
+   */
+  async rename(id: string, name: string): Promise<void> {
+    await this.updateIndex(index => index.map(slot => (slot.id === id ? { ...slot, name } : slot)))
+  }
+
+  /**
+   * Copy a slot into a new one
+   */
+  async duplicate(id: string, name?: string): Promise<SaveSlotMeta | null> {
+    const source = await this.get(id)
+    const data = await this.read(id)
+    if (!source || !data) return null
+
+    return this.write(null, data, name ?? `${source.name} (kopya)`, source.thumbnail)
+  }
+
+  /**
+   * Delete a slot
+   */
+  async delete(id: string): Promise<void> {
+    await getStorage().removeItem(this.slotKey(id))
+    await this.updateIndex(index => index.filter(slot => slot.id !== id))
+  }
+
+  /**
+   * Move data from the old single-key save into the slot layout.
+   * The key held either a persisted city store or an F1 save, depending on
+   * which wrote last. The persisted city is copied synchronously so it is in
+   * place before the city store hydrates
+   */
+  async importLegacySave(): Promise<void> {
+    const saved = localStorage.getItem(STORAGE_KEYS.LEGACY_SAVE)
+    if (!saved) return
+
+    try {
+      const parsed = JSON.parse(saved)
+
+      if (parsed?.state) {
+        if (!localStorage.getItem(STORAGE_KEYS.CITY_STATE)) {
+          localStorage.setItem(STORAGE_KEYS.CITY_STATE, saved)
+        }
+      } else {
+        const data = migrateSaveData(parsed)
+        await this.write(null, data, data.cityName)
+      }
+
+      localStorage.removeItem(STORAGE_KEYS.LEGACY_SAVE)
+    } catch (error) {
+      // Leave the old key in place so nothing is lost
+      console.error('[SaveSlotManager] Failed to import legacy save:', error)
+    }
+  }
+
+  private slotKey(id: string): string {
+    return STORAGE_KEYS.SAVE_SLOT_PREFIX + id
+  }
+
+  private async readIndex(): Promise<SaveSlotMeta[]> {
+    const saved = await getStorage().getItem(STORAGE_KEYS.SAVE_INDEX)
+    if (!saved) return []
+    try {
+      return JSON.parse(saved)
+    } catch {
+      return []
+    }
+  }
+
+  private async writeIndex(index: SaveSlotMeta[]): Promise<void> {
+    await getStorage().setItem(STORAGE_KEYS.SAVE_INDEX, JSON.stringify(index))
+  }
+
+  /**
+   * Read, change and write the index once every earlier update has finished
+   * Resolves to the index as written
+   */
+  private updateIndex(update: (index: SaveSlotMeta[]) => SaveSlotMeta[]): Promise<SaveSlotMeta[]> {
+    const next = this.indexQueue.then(async () => {
+      const index = update(await this.readIndex())
+      await this.writeIndex(index)
+      return index
+    })
+    // A failed update is reported to its caller and doesn't block the next one
+    this.indexQueue = next.catch(() => undefined)
+    return next
+  }
+}
+
+// Singleton instance
+let saveSlotManagerInstance: SaveSlotManager | null = null
+
+export function getSaveSlotManager(): SaveSlotManager {
+  if (!saveSlotManagerInstance) {
+    saveSlotManagerInstance = new SaveSlotManager()
+  }
+  return saveSlotManagerInstance
+}
@@ -0,0 +1,129 @@
+import { STORAGE_DB_NAME, STORAGE_DB_STORE } from '@/lib/constants'
+
+/**
+ * Async key/value storage used for saves and the persisted city
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+}
+
+/**
+ * localStorage backend (small quota, synchronous under the hood)
+ */
+export class LocalStorageBackend implements StorageBackend {
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key)
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value)
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * IndexedDB backend
+ * Falls back to localStorage when the database cannot be opened
+ * (e.g. private browsing), and moves keys still in localStorage over on first read
+ */
+export class IndexedDBBackend implements StorageBackend {
+  private db: Promise<IDBDatabase | null> | null = null
+  private fallback = new LocalStorageBackend()
+
+  constructor(
+    private dbName: string = STORAGE_DB_NAME,
+    private storeName: string = STORAGE_DB_STORE
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await this.open()
+    if (!db) return this.fallback.getItem(key)
+
+    const value = await this.request<unknown>(db, 'readonly', store => store.get(key))
+    if (typeof value === 'string') return value
+
+    // Data written before IndexedDB was in use
+    const legacy = localStorage.getItem(key)
+    if (legacy !== null) {
+      await this.request(db, 'readwrite', store => store.put(legacy, key))
+      localStorage.removeItem(key)
+    }
+    return legacy
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await this.open()
+    if (!db) return this.fallback.setItem(key, value)
+
+    await this.request(db, 'readwrite', store => store.put(value, key))
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await this.open()
+    if (!db) return this.fallback.removeItem(key)
+
+    await this.request(db, 'readwrite', store => store.delete(key))
+    localStorage.removeItem(key)
+  }
+
+  /**
+   * Open the database once; resolves null if IndexedDB is unavailable
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        try {
+          const request = indexedDB.open(this.dbName, 1)
+          request.onupgradeneeded = () => {
+            request.result.createObjectStore(this.storeName)
+          }
+          request.onsuccess = () => resolve(request.result)
+          request.onerror = () => {
+            console.warn('[Storage] IndexedDB unavailable, using localStorage:', request.error)
+            resolve(null)
+          }
+        } catch (error) {
+          console.warn('[Storage] IndexedDB unavailable, using localStorage:', error)
+          resolve(null)
+        }
+      })
+    }
+    return this.db
+  }
+
+  private request<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+// Singleton instance
+let storageInstance: StorageBackend | null = null
+
+export function getStorage(): StorageBackend {
+  if (!storageInstance) {
+    storageInstance = typeof indexedDB !== 'undefined'
+      ? new IndexedDBBackend()
+      : new LocalStorageBackend()
+  }
+  return storageInstance
+}
+
+/**
+ * Replace the storage backend
+ */
+export function setStorage(backend: StorageBackend): void {
+  storageInstance = backend
+}
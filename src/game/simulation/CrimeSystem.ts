@@ -0,0 +1,120 @@
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { TileData } from '@/types/game.types'
+import { CrimeState, DistrictCrime } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getCoverageAt } from './ServicesSystem'
+import {
+  CRIME_PER_RATE,
+  CRIME_UNEMPLOYMENT,
+  LOW_LAND_VALUE,
+  CRIME_PER_LAND_VALUE,
+  POLICE_CRIME_REDUCTION,
+  CRIME_DIFFUSION,
+  ABANDONED_CRIME,
+} from '@/lib/constants'
+import { clamp, getAdjacentTiles, getDistrict, gridPositionToKey } from '@/lib/utils'
+
+export const EMPTY_CRIME_STATE: CrimeState = {
+  average: 0,
+  districts: [],
+}
+
+/**
+ * Crime simulation system
+ * Buildings breed crime from their crimeRate, unemployment, low land
+ * value and abandonment; it spills into neighboring tiles and police coverage suppresses it
+ */
+export class CrimeSystem extends PeriodicSimulationSystem {
+  name = 'crime'
+  priority = 26
+
+  protected readonly period = 'hour'
+
+  protected tick(): void {
+    this.spreadCrime()
+    this.calculateDistricts()
+  }
+
+  /**
+   * Generate crime on every tile and diffuse it from the neighbors
+   */
+  private spreadCrime(): void {
+    const cityStore = useCityStore.getState()
+    const { tiles, buildings, services, population, getBuildingDefinition } = cityStore
+    const unemployment = population.workers > 0 ? 1 - population.employmentRate : 0
+    const updates = new Map<string, Partial<TileData>>()
+
+    tiles.forEach((tile, key) => {
+      let crime = 0
+
+      const building = tile.buildingId ? buildings.get(tile.buildingId) : undefined
+      if (building) {
+        const definition = getBuildingDefinition(building.definitionId)
+        crime += (definition?.crimeRate ?? 0) * CRIME_PER_RATE
+        if (definition?.zone === 'residential') crime += unemployment * CRIME_UNEMPLOYMENT
+        crime += Math.max(LOW_LAND_VALUE - tile.landValue, 0) * CRIME_PER_LAND_VALUE
+        if (building.abandoned) crime += ABANDONED_CRIME
+      }
+
+      // Crime spills over from the neighborhood
+      const neighbors = getAdjacentTiles(tile.position)
+      let nearby = 0
+      neighbors.forEach((position) => {
+        nearby += tiles.get(gridPositionToKey(position))?.crime ?? 0
+      })
+      crime += CRIME_DIFFUSION * (nearby / neighbors.length)
+
+      const police = getCoverageAt(services, 'police', key)
+      crime = clamp(crime * (1 - police * POLICE_CRIME_REDUCTION), 0, 100)
+      crime = Math.round(crime * 10) / 10
+      if (crime !== tile.crime) updates.set(key, { crime })
+    })
+
+    cityStore.updateTiles(updates)
+  }
+
+  /**
+   * Average crime over the developed tiles of each district
+   */
+  private calculateDistricts(): void {
+    const cityStore = useCityStore.getState()
+    const districts = new Map<string, DistrictCrime & { tiles: number; buildingIds: Set<string> }>()
+    let total = 0
+    let developed = 0
+
+    cityStore.tiles.forEach((tile) => {
+      if (!tile.buildingId) return
+
+      const { id, name } = getDistrict(tile.position)
+      const district = districts.get(id)
+        ?? { id, name, crime: 0, buildings: 0, tiles: 0, buildingIds: new Set<string>() }
+      district.crime += tile.crime
+      district.tiles++
+      district.buildingIds.add(tile.buildingId)
+      districts.set(id, district)
+
+      total += tile.crime
+      developed++
+    })
+
+    cityStore.updateCrime({
+      average: developed > 0 ? total / developed : 0,
+      districts: Array.from(districts.values())
+        .map(({ id, name, crime, tiles, buildingIds }) => ({
+          id,
+          name,
+          crime: crime / tiles,
+          buildings: buildingIds.size,
+        }))
+        .sort((a, b) => b.crime - a.crime),
+    })
+  }
+
+  getState(): CrimeState {
+    return useCityStore.getState().crime
+  }
+
+  protected needsRefresh(): boolean {
+    return useCityStore.getState().crime === EMPTY_CRIME_STATE
+  }
+}
@@ -0,0 +1,220 @@
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { GameEvents } from '@/game/core/EventBus'
+import { GameTime } from '@/types/game.types'
+import { Building, BuildingDefinition } from '@/types/building.types'
+import { useCityStore } from '@/stores/cityStore'
+import { COVERAGE_SERVICES, getCoverageAt } from './ServicesSystem'
+import {
+  HOURS_PER_DAY,
+  MINUTES_PER_HOUR,
+  LEVEL_THRESHOLDS,
+  LEVEL_DOWN_MARGIN,
+  LEVEL_UP_CHANCE,
+  LEVEL_DOWN_CHANCE,
+  ABANDON_LAND_VALUE,
+  ABANDON_DEMAND,
+  ABANDON_CHANCE,
+  ABANDON_GRACE_DAYS,
+  LEVEL_UP_CONDITION,
+  REDEVELOP_DEMAND,
+  REDEVELOP_CHANCE,
+  CONDITION_DECAY,
+  CONDITION_AGE_DECAY,
+  CONDITION_MAX_AGE_DECAY,
+  CONDITION_UTILITY_DECAY,
+  CONDITION_REPAIR,
+} from '@/lib/constants'
+import { clamp, gridPositionToKey, randomChance } from '@/lib/utils'
+
+/**
+ * What a zoned building's lot offers, measured against tier thresholds
+ */
+interface LotConditions {
+  landValue: number
+  services: number // Average coverage in percent
+  education: number
+  demand: number
+  utilities: boolean // Power, water and a road to the city
+  condition: number
+}
+
+/**
+ * Development simulation system
+ * Zoned buildings wear down with age and without utilities while maintenance
+ * repairs them. They grow into the next tier of their chain once land value,
+ * services, education and demand allow it and drop back when conditions
+ * deteriorate. Wrecked, empty or hopeless buildings are abandoned until the
+ * lot is worth redeveloping
+ */
+export class DevelopmentSystem extends PeriodicSimulationSystem {
+  name = 'development'
+  priority = 21
+
+  protected readonly period = 'day'
+
+  protected tick(gameTime: GameTime): void {
+    this.updateCondition(gameTime)
+    this.processLevels(gameTime)
+  }
+
+  /**
+   * Wear and repair every zoned building for one day
+   */
+  private updateCondition(gameTime: GameTime): void {
+    const { buildings, buildingCatalog, economy, updateBuildings } = useCityStore.getState()
+
+    // Repairs stop while the city is in debt
+    const repair = economy.balance > 0 ? CONDITION_REPAIR * (economy.maintenanceFunding / 100) : 0
+    const updates = new Map<string, Partial<Building>>()
+
+    buildings.forEach((building) => {
+      if (building.abandoned) return
+      const definition = buildingCatalog.find(d => d.id === building.definitionId)
+      if (!definition?.zone) return
+
+      let wear = CONDITION_DECAY + Math.min(this.getAgeDays(building, gameTime) * CONDITION_AGE_DECAY, CONDITION_MAX_AGE_DECAY)
+      if (!building.isPowered) wear += CONDITION_UTILITY_DECAY.power
+      if (!building.hasWater) wear += CONDITION_UTILITY_DECAY.water
+      if (!building.hasRoadAccess) wear += CONDITION_UTILITY_DECAY.road
+
+      const condition = clamp(building.condition - wear + repair, 0, 100)
+      if (condition !== building.condition) updates.set(building.id, { condition })
+    })
+
+    updateBuildings(updates)
+  }
+
+  /**
+   * Level every zoned building up, down or out, and redevelop abandoned lots
+   */
+  private processLevels(gameTime: GameTime): void {
+    const cityStore = useCityStore.getState()
+    const { buildings, buildingCatalog } = cityStore
+
+    buildings.forEach((building) => {
+      const definition = buildingCatalog.find(d => d.id === building.definitionId)
+      if (!definition?.zone) return
+
+      const conditions = this.getConditions(building, definition)
+      if (building.abandoned) {
+        this.redevelop(building, definition, conditions)
+        return
+      }
+
+      const upgrade = definition.upgradesTo
+        ? buildingCatalog.find(d => d.id === definition.upgradesTo)
+        : undefined
+      const downgrade = buildingCatalog.find(d => d.upgradesTo === definition.id)
+      const settled = this.getAgeDays(building, gameTime) >= ABANDON_GRACE_DAYS
+
+      if (settled && this.isDerelict(building, conditions, !downgrade)) {
+        if (!randomChance(ABANDON_CHANCE)) return
+        cityStore.setAbandoned(building.id, true)
+        this.notify('error', 'Bina Terk Edildi', `${definition.name} terk edildi.`)
+      } else if (upgrade && conditions.condition >= LEVEL_UP_CONDITION && this.qualifies(upgrade, conditions, 0)) {
+        if (!randomChance(LEVEL_UP_CHANCE)) return
+        cityStore.replaceBuilding(building.id, upgrade.id)
+        this.notify('success', 'Bina Büyüdü', `${definition.name} büyüyerek ${upgrade.name} oldu (seviye ${upgrade.level ?? 1}).`)
+      } else if (downgrade && !this.qualifies(definition, conditions, LEVEL_DOWN_MARGIN)) {
+        if (!randomChance(LEVEL_DOWN_CHANCE)) return
+        cityStore.replaceBuilding(building.id, downgrade.id)
+        this.notify('warning', 'Bina Küçüldü', `${definition.name} koşullar kötüleştiği için ${downgrade.name} seviyesine geriledi.`)
+      }
+    })
+  }
+
+  /**
+   * Rebuild an abandoned lot as the lowest tier of its chain once builders
+   * would come back to it
+   */
+  private redevelop(building: Building, definition: BuildingDefinition, conditions: LotConditions): void {
+    if (this.hasNoProspects(conditions) || conditions.demand < REDEVELOP_DEMAND) return
+    if (!randomChance(REDEVELOP_CHANCE)) return
+
+    const cityStore = useCityStore.getState()
+    const findDowngrade = (tier: BuildingDefinition) => cityStore.buildingCatalog.find(d => d.upgradesTo === tier.id)
+    let tier = definition
+    let downgrade = findDowngrade(tier)
+    while (downgrade) {
+      tier = downgrade
+      downgrade = findDowngrade(tier)
+    }
+
+    if (tier.id !== definition.id) cityStore.replaceBuilding(building.id, tier.id)
+    cityStore.setAbandoned(building.id, false)
+    this.notify('success', 'Bina Yenilendi', tier.id === definition.id
+      ? `Terk edilmiş ${definition.name} yeniden yapıldı.`
+      : `Terk edilmiş ${definition.name} yerine ${tier.name} yapıldı.`)
+  }
+
+  /**
+   * Wrecked or empty buildings are left behind, and so is the lowest tier
+   * on a lot without prospects
+   */
+  private isDerelict(building: Building, conditions: LotConditions, lowestTier: boolean): boolean {
+    if (conditions.condition <= 0 || building.occupancy < 1) return true
+    return lowestTier && this.hasNoProspects(conditions)
+  }
+
+  private getAgeDays(building: Building, gameTime: GameTime): number {
+    return Math.max(gameTime.totalMinutes - building.builtAt, 0) / (HOURS_PER_DAY * MINUTES_PER_HOUR)
+  }
+
+  private getConditions(building: Building, definition: BuildingDefinition): LotConditions {
+    const { tiles, services, population, zoneDemand } = useCityStore.getState()
+    const key = gridPositionToKey(building.position)
+    const coverage = COVERAGE_SERVICES.reduce((total, type) => total + getCoverageAt(services, type, key), 0)
+
+    return {
+      landValue: tiles.get(key)?.landValue ?? 0,
+      services: (coverage / COVERAGE_SERVICES.length) * 100,
+      education: population.education,
+      demand: definition.zone ? zoneDemand[definition.zone] : 0,
+      utilities: building.isPowered && building.hasWater && building.hasRoadAccess,
+      condition: building.condition,
+    }
+  }
+
+  /**
+   * Whether a lot meets a tier's needs, allowing it to fall short by margin
+   */
+  private qualifies(tier: BuildingDefinition, conditions: LotConditions, margin: number): boolean {
+    if (!conditions.utilities) return false
+    if (conditions.landValue < (tier.requirements.landValue ?? 0) - margin) return false
+
+    const thresholds = LEVEL_THRESHOLDS[tier.level ?? 1]
+    if (!thresholds) return true
+    return (
+      conditions.services >= thresholds.services - margin &&
+      conditions.education >= thresholds.education - margin &&
+      conditions.demand >= thresholds.demand - margin
+    )
+  }
+
+  private hasNoProspects(conditions: LotConditions): boolean {
+    return (
+      !conditions.utilities ||
+      conditions.landValue < ABANDON_LAND_VALUE ||
+      conditions.demand < ABANDON_DEMAND
+    )
+  }
+
+  private notify(type: 'success' | 'warning' | 'error', title: string, message: string): void {
+    GameEvents.cityAlert({ type, title, message })
+  }
+
+  getState(): { levels: Record<number, number>; abandoned: number } {
+    const { buildings, buildingCatalog } = useCityStore.getState()
+    const levels: Record<number, number> = {}
+    let abandoned = 0
+
+    buildings.forEach((building) => {
+      const definition = buildingCatalog.find(d => d.id === building.definitionId)
+      if (!definition?.zone) return
+      if (building.abandoned) abandoned++
+      else levels[building.level] = (levels[building.level] ?? 0) + 1
+    })
+
+    return { levels, abandoned }
+  }
+}
@@ -1,29 +1,27 @@
-import { BaseSimulationSystem } from './SimulationManager'
-import { GameTime } from '@/types/game.types'
-import { EconomyState } from '@/types/simulation.types'
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { EconomyState, ROAD_CLASSES } from '@/types/simulation.types'
 import { useCityStore } from '@/stores/cityStore'
 import { EventBus, GameEvents } from '../core/EventBus'
 import {
   TAX_INCOME_PER_RESIDENT,
   TAX_INCOME_PER_WORKER,
   TAX_INCOME_PER_INDUSTRY,
+  PIPE_MAINTENANCE_COST,
+  BASE_LAND_VALUE,
 } from '@/lib/constants'
+import { gridPositionToKey } from '@/lib/utils'
 
 /**
  * Economy simulation system
  * Handles taxes, income, expenses, and budget management
  */
-export class EconomySystem extends BaseSimulationSystem {
+export class EconomySystem extends PeriodicSimulationSystem {
   name = 'economy'
   priority = 10
 
-  private lastUpdateHour = -1
-
-  update(delta: number, gameTime: GameTime): void {
-    // Only update economy once per game hour
-    if (gameTime.hour === this.lastUpdateHour) return
-    this.lastUpdateHour = gameTime.hour
+  protected readonly period = 'hour'
 
+  protected tick(): void {
     this.calculateIncome()
     this.calculateExpenses()
     this.updateBalance()
@@ -34,7 +32,7 @@ export class EconomySystem extends BaseSimulationSystem {
    */
   private calculateIncome(): void {
     const cityStore = useCityStore.getState()
-    const { buildings, buildingCatalog, economy } = cityStore
+    const { buildings, buildingCatalog, economy, tiles } = cityStore
 
     let residentialIncome = 0
     let commercialIncome = 0
@@ -44,13 +42,18 @@ export class EconomySystem extends BaseSimulationSystem {
       const definition = buildingCatalog.find(d => d.id === building.definitionId)
       if (!definition) return
 
+      // Buildings cut off from the road network and abandoned ones pay no taxes
+      if (!building.hasRoadAccess || building.abandoned) return
+
       const occupancyRate = building.occupancy / 100
 
       switch (definition.zone) {
         case 'residential':
           const residents = definition.capacity * occupancyRate
+          // Residents on valuable land pay more property tax
+          const landValue = tiles.get(gridPositionToKey(building.position))?.landValue ?? BASE_LAND_VALUE
           residentialIncome += residents * TAX_INCOME_PER_RESIDENT * 
-            (economy.taxRates.residential / 100)
+            (economy.taxRates.residential / 100) * (landValue / BASE_LAND_VALUE)
           break
 
         case 'commercial':
@@ -88,7 +91,7 @@ export class EconomySystem extends BaseSimulationSystem {
    */
   private calculateExpenses(): void {
     const cityStore = useCityStore.getState()
-    const { buildings, buildingCatalog, economy } = cityStore
+    const { buildings, roads, tiles, buildingCatalog, economy } = cityStore
 
     let maintenanceExpenses = 0
     const serviceExpenses = {
@@ -117,6 +120,19 @@ export class EconomySystem extends BaseSimulationSystem {
       }
     })
 
+    // Road upkeep depends on the road class
+    roads.forEach((road) => {
+      maintenanceExpenses += ROAD_CLASSES[road.type].maintenanceCost
+    })
+
+    // The maintenance budget scales upkeep up or down
+    maintenanceExpenses *= economy.maintenanceFunding / 100
+
+    // Pipe upkeep is part of the water budget
+    tiles.forEach((tile) => {
+      if (tile.pipe) serviceExpenses.water += PIPE_MAINTENANCE_COST
+    })
+
     serviceExpenses.total = Object.values(serviceExpenses)
       .filter((_, i) => i < 7)
       .reduce((a, b) => a + b, 0)
@@ -152,16 +168,4 @@ export class EconomySystem extends BaseSimulationSystem {
   getState(): EconomyState {
     return useCityStore.getState().economy
   }
-
-  reset(): void {
-    this.lastUpdateHour = -1
-  }
-
-  serialize(): unknown {
-    return this.getState()
-  }
-
-  deserialize(data: unknown): void {
-    // Economy state is managed by cityStore
-  }
 }
@@ -0,0 +1,265 @@
+import { BaseSimulationSystem } from './SimulationManager'
+import { GameEvents } from '@/game/core/EventBus'
+import { GameTime, GridPosition, TileData } from '@/types/game.types'
+import { Building } from '@/types/building.types'
+import { FireState, FireTruck } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
+import { getCoverageAt } from './ServicesSystem'
+import {
+  FIRE_IGNITION_CHANCE,
+  FIRE_AGE_DAYS,
+  FIRE_COVERAGE_REDUCTION,
+  FIRE_SPREAD_CHANCE,
+  FIRE_BURN_RATE,
+  FIRE_TRUCK_SPEED,
+  FIRE_TRUCKS_PER_STATION,
+  FIRE_EXTINGUISH_MINUTES,
+  HOURS_PER_DAY,
+  MINUTES_PER_HOUR,
+  ROAD_ACCESS_DISTANCE,
+} from '@/lib/constants'
+import { generateEntityId, getAdjacentTiles, gridPositionToKey, randomChance } from '@/lib/utils'
+
+// Minutes simulated at most in one update, after a stall or at high speed
+const MAX_STEP_MINUTES = 60
+
+/**
+ * Fire simulation system
+ * Buildings catch fire from their fireRisk, age and condition, and fires
+ * spread to adjacent buildings. Fire stations send trucks along the roads;
+ * a fire nobody reaches in time burns the building down to rubble
+ */
+export class FireSystem extends BaseSimulationSystem {
+  name = 'fire'
+  priority = 27
+
+  private lastMinute = -1
+  private trucks: FireTruck[] = []
+  private burning: string[] = []
+
+  update(delta: number, gameTime: GameTime): void {
+    const elapsed = gameTime.totalMinutes - this.lastMinute
+    if (elapsed === 0) return
+
+    // Start counting on the first update and after time jumps back
+    const first = this.lastMinute < 0 || elapsed < 0
+    this.lastMinute = gameTime.totalMinutes
+    if (first) return
+
+    this.step(Math.min(elapsed, MAX_STEP_MINUTES), gameTime.totalMinutes)
+  }
+
+  /**
+   * Advance every fire and truck by some game minutes
+   */
+  private step(minutes: number, now: number): void {
+    const cityStore = useCityStore.getState()
+    const { tiles, buildings, services, getBuildingDefinition } = cityStore
+
+    // Burn progress per building
+    const fires = new Map<string, number>()
+    tiles.forEach((tile) => {
+      if (tile.fire > 0 && tile.buildingId) {
+        fires.set(tile.buildingId, Math.max(fires.get(tile.buildingId) ?? 0, tile.fire))
+      }
+    })
+
+    // A crew at the scene holds the fire back
+    const fighting = new Set(this.trucks.filter(t => t.state === 'extinguishing').map(t => t.buildingId))
+    const burnedDown: string[] = []
+    fires.forEach((progress, id) => {
+      if (fighting.has(id)) return
+      const next = progress + FIRE_BURN_RATE * minutes
+      if (next >= 100) burnedDown.push(id)
+      else fires.set(id, next)
+    })
+
+    // Fires jump to the buildings next door
+    const ignited = new Set<string>()
+    fires.forEach((_, id) => {
+      const building = buildings.get(id)
+      if (!building) return
+      this.getNeighbors(building).forEach((neighborId) => {
+        if (fires.has(neighborId) || ignited.has(neighborId)) return
+        if (randomChance(FIRE_SPREAD_CHANCE * minutes)) ignited.add(neighborId)
+      })
+    })
+    burnedDown.forEach(id => fires.delete(id))
+
+    // New fires: older, run-down and unprotected buildings burn more often
+    buildings.forEach((building, id) => {
+      if (fires.has(id) || ignited.has(id) || burnedDown.includes(id)) return
+      const fireRisk = getBuildingDefinition(building.definitionId)?.fireRisk ?? 0
+      if (fireRisk <= 0) return
+
+      const ageDays = Math.max(now - building.builtAt, 0) / (HOURS_PER_DAY * MINUTES_PER_HOUR)
+      const protection = getCoverageAt(services, 'fire', gridPositionToKey(building.position))
+      const chance = FIRE_IGNITION_CHANCE * fireRisk
+        * (1 + ageDays / FIRE_AGE_DAYS)
+        * (2 - building.condition / 100)
+        * (1 - protection * FIRE_COVERAGE_REDUCTION)
+      if (randomChance(chance * minutes)) ignited.add(id)
+    })
+
+    ignited.forEach((id) => {
+      fires.set(id, FIRE_BURN_RATE)
+      this.notify(id, 'warning', '🔥 Yangın', 'yanıyor!')
+    })
+
+    this.dispatchTrucks(fires)
+    this.moveTrucks(minutes, fires)
+
+    // Write burn progress to every tile of the burning buildings
+    const updates = new Map<string, Partial<TileData>>()
+    tiles.forEach((tile, key) => {
+      const fire = tile.buildingId ? fires.get(tile.buildingId) ?? 0 : 0
+      if (fire !== tile.fire) updates.set(key, { fire })
+    })
+    cityStore.updateTiles(updates)
+
+    burnedDown.forEach((id) => {
+      this.notify(id, 'error', 'Bina yandı', 'yanarak enkaza döndü.')
+      cityStore.burnDown(id)
+    })
+
+    this.burning = Array.from(fires.keys())
+  }
+
+  /**
+   * Send a truck from the nearest free station to every fire without one
+   */
+  private dispatchTrucks(fires: Map<string, number>): void {
+    const { buildings, getBuildingDefinition } = useCityStore.getState()
+    const network = getRoadNetwork()
+
+    const assigned = new Set(this.trucks.filter(t => t.state !== 'returning').map(t => t.buildingId))
+    const busy = new Map<string, number>()
+    this.trucks.forEach(t => busy.set(t.stationId, (busy.get(t.stationId) ?? 0) + 1))
+
+    const stations: Building[] = []
+    buildings.forEach((building) => {
+      if (getBuildingDefinition(building.definitionId)?.serviceType !== 'fire') return
+      if (building.isActive && building.isPowered) stations.push(building)
+    })
+    if (stations.length === 0) return
+
+    fires.forEach((_, id) => {
+      const building = buildings.get(id)
+      if (!building || assigned.has(id)) return
+      const target = network.getNearestRoad(building.position, ROAD_ACCESS_DISTANCE)
+      if (!target) return
+
+      let best: { stationId: string; path: GridPosition[]; cost: number } | null = null
+      stations.forEach((station) => {
+        if ((busy.get(station.id) ?? 0) >= FIRE_TRUCKS_PER_STATION) return
+        const start = network.getNearestRoad(station.position, ROAD_ACCESS_DISTANCE)
+        if (!start) return
+        const result = network.findPath(start.id, target.id)
+        if (result.found && (!best || result.cost < best.cost)) {
+          best = { stationId: station.id, path: result.path, cost: result.cost }
+        }
+      })
+      if (!best) return
+
+      const { stationId, path } = best
+      this.trucks.push({
+        id: generateEntityId(),
+        stationId,
+        buildingId: id,
+        path,
+        progress: 0,
+        state: 'responding',
+        timer: 0,
+      })
+      busy.set(stationId, (busy.get(stationId) ?? 0) + 1)
+    })
+  }
+
+  /**
+   * Drive trucks along their paths and put out the fires they reach
+   */
+  private moveTrucks(minutes: number, fires: Map<string, number>): void {
+    this.trucks = this.trucks.filter((truck) => {
+      const end = truck.path.length - 1
+
+      if (truck.state !== 'returning' && !fires.has(truck.buildingId)) {
+        this.turnBack(truck)
+        return true
+      }
+
+      switch (truck.state) {
+        case 'responding':
+          truck.progress = Math.min(truck.progress + FIRE_TRUCK_SPEED * minutes, end)
+          if (truck.progress >= end) truck.state = 'extinguishing'
+          return true
+
+        case 'extinguishing':
+          truck.timer += minutes
+          if (truck.timer >= FIRE_EXTINGUISH_MINUTES) {
+            fires.delete(truck.buildingId)
+            this.notify(truck.buildingId, 'success', 'Yangın söndürüldü', 'kurtarıldı.')
+            this.turnBack(truck)
+          }
+          return true
+
+        case 'returning':
+          truck.progress = Math.min(truck.progress + FIRE_TRUCK_SPEED * minutes, end)
+          return truck.progress < end
+      }
+    })
+  }
+
+  private turnBack(truck: FireTruck): void {
+    truck.path = [...truck.path].reverse()
+    truck.progress = truck.path.length - 1 - truck.progress
+    truck.state = 'returning'
+  }
+
+  /**
+   * Other buildings sharing an edge with a building's footprint
+   */
+  private getNeighbors(building: Building): Set<string> {
+    const { tiles, getBuildingDefinition } = useCityStore.getState()
+    const size = getBuildingDefinition(building.definitionId)?.size ?? { width: 1, depth: 1 }
+    const neighbors = new Set<string>()
+
+    for (let dx = 0; dx < size.width; dx++) {
+      for (let dz = 0; dz < size.depth; dz++) {
+        getAdjacentTiles({ x: building.position.x + dx, z: building.position.z + dz }).forEach((position) => {
+          const buildingId = tiles.get(gridPositionToKey(position))?.buildingId
+          if (buildingId && buildingId !== building.id) neighbors.add(buildingId)
+        })
+      }
+    }
+    return neighbors
+  }
+
+  private notify(buildingId: string, type: 'warning' | 'error' | 'success', title: string, message: string): void {
+    const { buildings, getBuildingDefinition } = useCityStore.getState()
+    const building = buildings.get(buildingId)
+    const name = building ? getBuildingDefinition(building.definitionId)?.name ?? 'Bina' : 'Bina'
+    GameEvents.cityAlert({ type, title, message: `${name} ${message}` })
+  }
+
+  getState(): FireState {
+    return { burning: this.burning, trucks: this.trucks }
+  }
+
+  reset(): void {
+    this.lastMinute = -1
+    this.trucks = []
+    this.burning = []
+  }
+
+  serialize(): unknown {
+    // Burn progress lives on the tiles; trucks on the road live here
+    return { lastMinute: this.lastMinute, trucks: this.trucks }
+  }
+
+  deserialize(data: unknown): void {
+    const state = data as { lastMinute?: number; trucks?: FireTruck[] }
+    this.lastMinute = state.lastMinute ?? -1
+    this.trucks = (state.trucks ?? []).map(t => ({ ...t, path: t.path.map(p => ({ ...p })) }))
+  }
+}
@@ -0,0 +1,164 @@
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { TileData } from '@/types/game.types'
+import { BuildingDefinition } from '@/types/building.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
+import { COVERAGE_SERVICES, getCoverageAt } from './ServicesSystem'
+import {
+  BASE_LAND_VALUE,
+  LAND_VALUE_RADIUS,
+  PARK_LAND_VALUE_RADIUS,
+  SERVICE_LAND_VALUE,
+  WATERFRONT_LAND_VALUE,
+  WATERFRONT_DISTANCE,
+  NO_ROAD_LAND_VALUE_PENALTY,
+  LAND_VALUE_SMOOTHING,
+  ABANDONED_LAND_VALUE,
+  CRIME_LAND_VALUE_PENALTY,
+  GARBAGE_LAND_VALUE_PENALTY,
+  POLLUTION_LAND_VALUE_PENALTY,
+} from '@/lib/constants'
+import {
+  clamp,
+  getAdjacentTiles,
+  getTilesInRadius,
+  gridPositionToKey,
+  randomElement,
+} from '@/lib/utils'
+
+/**
+ * Pick a zoned building for a lot, preferring the highest tier its land
+ * value allows. Returns null when no candidate fits
+ */
+export function pickBuildingForLand(
+  candidates: BuildingDefinition[],
+  landValue: number
+): BuildingDefinition | null {
+  const affordable = candidates.filter(b => (b.requirements.landValue ?? 0) <= landValue)
+  if (affordable.length === 0) return null
+
+  const tier = Math.max(...affordable.map(b => b.requirements.landValue ?? 0))
+  return randomElement(affordable.filter(b => (b.requirements.landValue ?? 0) === tier))
+}
+
+/**
+ * Land value simulation system
+ * Every hour each tile's land value moves toward a target built from nearby
+ * buildings and parks, service coverage, water and road access, minus
+ * crime, garbage and pollution
+ */
+export class LandValueSystem extends PeriodicSimulationSystem {
+  name = 'landValue'
+  priority = 29
+
+  protected readonly period = 'hour'
+
+  protected tick(): void {
+    this.calculateLandValue()
+  }
+
+  /**
+   * Move every tile toward its target land value
+   */
+  private calculateLandValue(): void {
+    const cityStore = useCityStore.getState()
+    const { tiles, services } = cityStore
+    const network = getRoadNetwork()
+
+    const effects = this.getBuildingEffects()
+    const waterfront = this.getWaterDistances()
+    const updates = new Map<string, Partial<TileData>>()
+
+    tiles.forEach((tile, key) => {
+      let target = BASE_LAND_VALUE + (effects.get(key) ?? 0)
+
+      COVERAGE_SERVICES.forEach((type) => {
+        target += SERVICE_LAND_VALUE[type] * getCoverageAt(services, type, key)
+      })
+
+      const distance = waterfront.get(key)
+      if (distance !== undefined && distance > 0) {
+        target += WATERFRONT_LAND_VALUE * (1 - (distance - 1) / WATERFRONT_DISTANCE)
+      }
+
+      if (!network.hasRoadAccess(tile.position)) target -= NO_ROAD_LAND_VALUE_PENALTY
+
+      target -= tile.crime * CRIME_LAND_VALUE_PENALTY
+      target -= tile.garbage * GARBAGE_LAND_VALUE_PENALTY
+      target -= tile.pollution * POLLUTION_LAND_VALUE_PENALTY.air
+      target -= tile.groundPollution * POLLUTION_LAND_VALUE_PENALTY.ground
+      target -= tile.noise * POLLUTION_LAND_VALUE_PENALTY.noise
+
+      // Prices follow the neighborhood gradually
+      const value = tile.landValue + (clamp(target, 0, 100) - tile.landValue) * LAND_VALUE_SMOOTHING
+      const landValue = Math.round(value * 10) / 10
+      if (landValue !== tile.landValue) updates.set(key, { landValue })
+    })
+
+    cityStore.updateTiles(updates)
+  }
+
+  /**
+   * Sum of the landValue effects of nearby buildings, fading with distance
+   */
+  private getBuildingEffects(): Map<string, number> {
+    const { buildings, getBuildingDefinition } = useCityStore.getState()
+    const effects = new Map<string, number>()
+
+    buildings.forEach((building) => {
+      const definition = getBuildingDefinition(building.definitionId)
+      // An abandoned building drags its neighborhood down whatever it was
+      const effect = building.abandoned ? ABANDONED_LAND_VALUE : definition?.effects.landValue ?? 0
+      if (effect === 0) return
+
+      const radius = definition?.category === 'park' ? PARK_LAND_VALUE_RADIUS : LAND_VALUE_RADIUS
+      getTilesInRadius(building.position, radius).forEach((position) => {
+        const distance = Math.sqrt(
+          Math.pow(position.x - building.position.x, 2) + Math.pow(position.z - building.position.z, 2)
+        )
+        const key = gridPositionToKey(position)
+        effects.set(key, (effects.get(key) ?? 0) + effect * (1 - distance / radius))
+      })
+    })
+
+    return effects
+  }
+
+  /**
+   * Steps from every tile within WATERFRONT_DISTANCE to the nearest water
+   */
+  private getWaterDistances(): Map<string, number> {
+    const { tiles } = useCityStore.getState()
+    const distances = new Map<string, number>()
+
+    let frontier: TileData[] = []
+    tiles.forEach((tile, key) => {
+      if (tile.type !== 'water') return
+      distances.set(key, 0)
+      frontier.push(tile)
+    })
+
+    for (let distance = 1; distance <= WATERFRONT_DISTANCE && frontier.length > 0; distance++) {
+      const next: TileData[] = []
+      frontier.forEach((tile) => {
+        getAdjacentTiles(tile.position).forEach((position) => {
+          const key = gridPositionToKey(position)
+          if (distances.has(key)) return
+          distances.set(key, distance)
+          const neighbor = tiles.get(key)
+          if (neighbor) next.push(neighbor)
+        })
+      })
+      frontier = next
+    }
+
+    return distances
+  }
+
+  getState(): { average: number } {
+    const { tiles } = useCityStore.getState()
+    let total = 0
+    tiles.forEach((tile) => { total += tile.landValue })
+    return { average: tiles.size > 0 ? total / tiles.size : 0 }
+  }
+}
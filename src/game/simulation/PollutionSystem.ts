@@ -0,0 +1,234 @@
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { GameTime, PollutionLayer, TileData } from '@/types/game.types'
+import { Direction, PollutionState, ROAD_CLASSES } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import {
+  GRID_SIZE,
+  AIR_EMISSION,
+  GROUND_EMISSION,
+  NOISE_EMISSION,
+  TRAFFIC_AIR_EMISSION,
+  TRAFFIC_NOISE_EMISSION,
+  GARBAGE_GROUND_EMISSION,
+  POLLUTION_DIFFUSION,
+  POLLUTION_DECAY,
+  POLLUTION_DESIRABILITY,
+  WIND_STRENGTH,
+  WIND_CHANGE_CHANCE,
+  PARK_ABSORPTION,
+} from '@/lib/constants'
+import { clamp, randomChance, randomElement } from '@/lib/utils'
+
+export const POLLUTION_LAYERS: PollutionLayer[] = ['air', 'ground', 'noise']
+
+export const EMPTY_POLLUTION_STATE: PollutionState = {
+  air: 0,
+  ground: 0,
+  noise: 0,
+  wind: 'east',
+}
+
+const WIND_OFFSETS: Record<Direction, { x: number; z: number }> = {
+  north: { x: 0, z: -1 },
+  south: { x: 0, z: 1 },
+  east: { x: 1, z: 0 },
+  west: { x: -1, z: 0 },
+}
+
+/**
+ * Value of a pollution layer on a tile
+ */
+export function getPollution(tile: TileData, layer: PollutionLayer): number {
+  switch (layer) {
+    case 'air': return tile.pollution
+    case 'ground': return tile.groundPollution
+    case 'noise': return tile.noise
+  }
+}
+
+/**
+ * How willing people are to move onto a lot, from 0 to 1
+ */
+export function getResidentialDesirability(tile: TileData): number {
+  const loss = POLLUTION_LAYERS.reduce(
+    (total, layer) => total + getPollution(tile, layer) * POLLUTION_DESIRABILITY[layer],
+    0
+  )
+  return clamp(1 - loss / 100, 0, 1)
+}
+
+function index(x: number, z: number): number {
+  return z * GRID_SIZE + x
+}
+
+/**
+ * Pollution simulation system
+ * Industry, utilities and busy roads emit air, ground and noise pollution.
+ * Every hour each layer spreads to the neighbors and fades, the wind
+ * carries air pollution along and parks soak some of it up
+ */
+export class PollutionSystem extends PeriodicSimulationSystem {
+  name = 'pollution'
+  priority = 24
+
+  protected readonly period = 'hour'
+  private wind: Direction = EMPTY_POLLUTION_STATE.wind
+
+  protected tick(gameTime: GameTime, elapsed: boolean): void {
+    if (elapsed) {
+      if (randomChance(WIND_CHANGE_CHANCE)) {
+        this.wind = randomElement(Object.keys(WIND_OFFSETS) as Direction[])
+      }
+      this.spreadPollution()
+    }
+    this.publish()
+  }
+
+  /**
+   * Emit, diffuse and decay every layer for one hour
+   */
+  private spreadPollution(): void {
+    const cityStore = useCityStore.getState()
+    const { tiles, buildings, roads, water, getBuildingDefinition } = cityStore
+
+    const size = GRID_SIZE * GRID_SIZE
+    const current = { air: new Float32Array(size), ground: new Float32Array(size), noise: new Float32Array(size) }
+    const sources = { air: new Float32Array(size), ground: new Float32Array(size), noise: new Float32Array(size) }
+    const parks = new Uint8Array(size)
+
+    tiles.forEach((tile) => {
+      const i = index(tile.position.x, tile.position.z)
+      POLLUTION_LAYERS.forEach((layer) => { current[layer][i] = getPollution(tile, layer) })
+      sources.ground[i] += tile.garbage * GARBAGE_GROUND_EMISSION
+
+      const building = tile.buildingId ? buildings.get(tile.buildingId) : undefined
+      const definition = building ? getBuildingDefinition(building.definitionId) : undefined
+      if (!building || !definition) return
+
+      if (definition.category === 'park') parks[i] = 1
+      if (definition.pollution <= 0 || !building.isActive) return
+
+      // Every tile of a polluting building emits
+      sources.air[i] += definition.pollution * AIR_EMISSION
+      sources.noise[i] += definition.pollution * NOISE_EMISSION
+      if (definition.zone === 'industrial' || definition.wasteDisposal === 'landfill') {
+        sources.ground[i] += definition.pollution * GROUND_EMISSION
+      }
+    })
+
+    // Busy roads fill the air with exhaust and noise
+    roads.forEach((road) => {
+      const i = index(road.position.x, road.position.z)
+      const lanes = ROAD_CLASSES[road.type].lanes
+      sources.air[i] += road.trafficLoad * lanes * TRAFFIC_AIR_EMISSION
+      sources.noise[i] += road.trafficLoad * lanes * TRAFFIC_NOISE_EMISSION
+    })
+
+    // Untreated sewage soaks into the water it reaches; settles at the sewage level
+    water.contamination.forEach((amount, key) => {
+      const [x, z] = key.split(',').map(Number)
+      sources.ground[index(x, z)] += amount * POLLUTION_DECAY.ground
+    })
+
+    const next = {
+      air: this.diffuse(current.air, sources.air, 'air', parks),
+      ground: this.diffuse(current.ground, sources.ground, 'ground', parks),
+      noise: this.diffuse(current.noise, sources.noise, 'noise', parks),
+    }
+
+    const updates = new Map<string, Partial<TileData>>()
+    tiles.forEach((tile, key) => {
+      const i = index(tile.position.x, tile.position.z)
+      const values = { pollution: next.air[i], groundPollution: next.ground[i], noise: next.noise[i] }
+      if (
+        values.pollution !== tile.pollution ||
+        values.groundPollution !== tile.groundPollution ||
+        values.noise !== tile.noise
+      ) {
+        updates.set(key, values)
+      }
+    })
+    cityStore.updateTiles(updates)
+  }
+
+  /**
+   * One hour of a layer: add the sources, even out with the neighbors,
+   * drift with the wind (air only), then fade and let parks absorb
+   */
+  private diffuse(values: Float32Array, sources: Float32Array, layer: PollutionLayer, parks: Uint8Array): number[] {
+    const wind = WIND_OFFSETS[this.wind]
+    const result: number[] = new Array(values.length)
+
+    for (let z = 0; z < GRID_SIZE; z++) {
+      for (let x = 0; x < GRID_SIZE; x++) {
+        const i = index(x, z)
+        let value = values[i] + sources[i]
+
+        let nearby = 0
+        let count = 0
+        for (const [dx, dz] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+          const nx = x + dx
+          const nz = z + dz
+          if (nx < 0 || nz < 0 || nx >= GRID_SIZE || nz >= GRID_SIZE) continue
+          nearby += values[index(nx, nz)]
+          count++
+        }
+        value += POLLUTION_DIFFUSION[layer] * (nearby / count - values[i])
+
+        if (layer === 'air') {
+          // Blown in from upwind; at the upwind edge clean air comes in
+          const ux = x - wind.x
+          const uz = z - wind.z
+          const upwind = ux < 0 || uz < 0 || ux >= GRID_SIZE || uz >= GRID_SIZE ? 0 : values[index(ux, uz)]
+          value += WIND_STRENGTH * (upwind - values[i])
+        }
+
+        value *= 1 - POLLUTION_DECAY[layer]
+        if (parks[i]) value *= 1 - PARK_ABSORPTION
+        result[i] = Math.round(clamp(value, 0, 100) * 10) / 10
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Publish city-wide averages over developed tiles and the wind
+   */
+  private publish(): void {
+    const cityStore = useCityStore.getState()
+    const totals = { air: 0, ground: 0, noise: 0 }
+    let developed = 0
+
+    cityStore.tiles.forEach((tile) => {
+      if (!tile.buildingId) return
+      POLLUTION_LAYERS.forEach((layer) => { totals[layer] += getPollution(tile, layer) })
+      developed++
+    })
+
+    cityStore.updatePollution({
+      air: developed > 0 ? totals.air / developed : 0,
+      ground: developed > 0 ? totals.ground / developed : 0,
+      noise: developed > 0 ? totals.noise / developed : 0,
+      wind: this.wind,
+    })
+  }
+
+  getState(): PollutionState {
+    return useCityStore.getState().pollution
+  }
+
+  reset(): void {
+    super.reset()
+    this.wind = EMPTY_POLLUTION_STATE.wind
+  }
+
+  serialize(): Record<string, unknown> {
+    return { ...super.serialize(), wind: this.wind }
+  }
+
+  deserialize(data: unknown): void {
+    super.deserialize(data)
+    this.wind = (data as { wind?: Direction }).wind ?? EMPTY_POLLUTION_STATE.wind
+  }
+}
@@ -1,6 +1,7 @@
-import { BaseSimulationSystem } from './SimulationManager'
-import { GameTime } from '@/types/game.types'
-import { PopulationState } from '@/types/simulation.types'
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { TileData } from '@/types/game.types'
+import { Building, BuildingDefinition } from '@/types/building.types'
+import { CoverageServices, EconomyState, PopulationState } from '@/types/simulation.types'
 import { useCityStore } from '@/stores/cityStore'
 import { EventBus, GameEvents } from '../core/EventBus'
 import {
@@ -9,26 +10,86 @@ import {
   BASE_HAPPINESS,
   MAX_HAPPINESS,
   MIN_HAPPINESS,
+  PARK_HAPPINESS,
+  MAX_PARK_HAPPINESS,
+  POLLUTION_HAPPINESS_PENALTY,
+  BASE_HEALTH,
+  BASE_EDUCATION,
+  UNSERVED_PENALTY,
+  SERVICE_HAPPINESS,
+  CRIME_HAPPINESS_PENALTY,
+  GARBAGE_HAPPINESS_PENALTY,
+  GARBAGE_HEALTH_PENALTY,
+  POLLUTION_HEALTH_PENALTY,
 } from '@/lib/constants'
-import { clamp, lerp } from '@/lib/utils'
+import { clamp, gridPositionToKey, lerp } from '@/lib/utils'
+import { COVERAGE_SERVICES, getCoverageAt } from './ServicesSystem'
+
+/**
+ * Happiness everyone in the city shares: jobs, taxes and parks
+ */
+export function getCityHappiness(
+  population: PopulationState,
+  economy: EconomyState,
+  buildings: Map<string, Building>,
+  catalog: BuildingDefinition[]
+): number {
+  // Employment factor (-20 to +10)
+  let happiness = (population.employmentRate - 0.5) * 40
+
+  // Tax factor (-15 to +5)
+  const avgTax = (economy.taxRates.residential +
+                 economy.taxRates.commercial +
+                 economy.taxRates.industrial) / 3
+  happiness -= (avgTax - 10) * 1.5
+
+  // Parks factor
+  let parkCount = 0
+  buildings.forEach((building) => {
+    const def = catalog.find(d => d.id === building.definitionId)
+    if (def?.category === 'park') parkCount++
+  })
+  happiness += Math.min(parkCount * PARK_HAPPINESS, MAX_PARK_HAPPINESS)
+
+  return happiness
+}
+
+/**
+ * Happiness from what surrounds a home: services, crime, garbage and air
+ */
+export function getLocalHappiness(tile: TileData, services: CoverageServices): number {
+  const key = gridPositionToKey(tile.position)
+  const serviceBonus = COVERAGE_SERVICES.reduce(
+    (bonus, type) => bonus + SERVICE_HAPPINESS[type] * getCoverageAt(services, type, key),
+    0
+  )
+  return serviceBonus
+    - tile.crime * CRIME_HAPPINESS_PENALTY
+    - tile.garbage * GARBAGE_HAPPINESS_PENALTY
+    - tile.pollution * POLLUTION_HAPPINESS_PENALTY
+}
+
+/**
+ * Happiness of the people living on a tile
+ */
+export function getTileHappiness(tile: TileData, services: CoverageServices, cityHappiness: number): number {
+  return clamp(BASE_HAPPINESS + cityHappiness + getLocalHappiness(tile, services), MIN_HAPPINESS, MAX_HAPPINESS)
+}
 
 /**
  * Population simulation system
  * Handles population growth, employment, and happiness
  */
-export class PopulationSystem extends BaseSimulationSystem {
+export class PopulationSystem extends PeriodicSimulationSystem {
   name = 'population'
   priority = 30
 
-  private lastUpdateDay = -1
-
-  update(delta: number, gameTime: GameTime): void {
-    // Only update population once per game day
-    if (gameTime.day === this.lastUpdateDay) return
-    this.lastUpdateDay = gameTime.day
+  protected readonly period = 'day'
 
+  protected tick(): void {
     this.updateOccupancy()
     this.calculateHappiness()
+    this.calculateWellbeing()
     this.processGrowth() // Process growth before employment to get updated population
     this.calculateEmployment()
   }
@@ -46,6 +107,12 @@ export class PopulationSystem extends BaseSimulationSystem {
       )
       if (!definition || !definition.zone) return
 
+      // Abandoned buildings stand empty
+      if (building.abandoned) {
+        building.occupancy = 0
+        return
+      }
+
       // Calculate target occupancy based on demand
       const demand = zoneDemand[definition.zone]
       const demandFactor = (demand + 100) / 200 // 0 to 1
@@ -84,14 +151,15 @@ export class PopulationSystem extends BaseSimulationSystem {
 
     buildings.forEach((building) => {
       const definition = buildingCatalog.find(d => d.id === building.definitionId)
-      if (!definition) return
+      if (!definition || building.abandoned) return
 
       const occupancyRate = building.occupancy / 100
 
       if (definition.zone === 'residential') {
         totalCapacity += definition.capacity
         occupiedCapacity += definition.capacity * occupancyRate
-      } else if (definition.jobs > 0) {
+      } else if (definition.jobs > 0 && building.hasRoadAccess) {
+        // Workers cannot reach buildings without road access
         totalJobs += definition.jobs
         filledJobs += definition.jobs * occupancyRate
       }
@@ -123,59 +191,68 @@ export class PopulationSystem extends BaseSimulationSystem {
    */
   private calculateHappiness(): void {
     const cityStore = useCityStore.getState()
-    const { population, economy, buildings, buildingCatalog, tiles } = cityStore
+    const { population, economy, buildings, buildingCatalog, tiles, services } = cityStore
 
-    let happiness = BASE_HAPPINESS
+    // What the city offers everyone, plus what surrounds the homes residents live in
+    const cityHappiness = getCityHappiness(population, economy, buildings, buildingCatalog)
+    const localHappiness = this.averageOverResidents((key) => {
+      const tile = tiles.get(key)
+      return tile ? getLocalHappiness(tile, services) : 0
+    })
 
-    // Employment factor (-20 to +10)
-    happiness += (population.employmentRate - 0.5) * 40
+    // Clamp and update immutably using Zustand action
+    const clampedHappiness = clamp(BASE_HAPPINESS + cityHappiness + (localHappiness ?? 0), MIN_HAPPINESS, MAX_HAPPINESS)
+    cityStore.updatePopulationState({
+      happiness: clampedHappiness,
+    })
+  }
 
-    // Tax factor (-15 to +5)
-    const avgTax = (economy.taxRates.residential + 
-                   economy.taxRates.commercial + 
-                   economy.taxRates.industrial) / 3
-    happiness -= (avgTax - 10) * 1.5
+  /**
+   * Health and education follow hospital and school coverage at home;
+   * garbage piling up outside and dirty air and soil make people sick
+   */
+  private calculateWellbeing(): void {
+    const cityStore = useCityStore.getState()
+    const { services, population, tiles } = cityStore
 
-    // Services factor
-    let hasPolice = false
-    let hasFire = false
-    let hasHealth = false
-    let hasEducation = false
+    const health = this.averageOverResidents(key => getCoverageAt(services, 'health', key))
+    const education = this.averageOverResidents(key => getCoverageAt(services, 'education', key))
+    const garbage = this.averageOverResidents(key => tiles.get(key)?.garbage ?? 0) ?? 0
+    const pollution = this.averageOverResidents((key) => {
+      const tile = tiles.get(key)
+      return tile ? tile.pollution + tile.groundPollution : 0
+    }) ?? 0
+    const sickness = garbage * GARBAGE_HEALTH_PENALTY + pollution * POLLUTION_HEALTH_PENALTY
 
-    buildings.forEach((building) => {
-      const def = buildingCatalog.find(d => d.id === building.definitionId)
-      if (def?.serviceType === 'police') hasPolice = true
-      if (def?.serviceType === 'fire') hasFire = true
-      if (def?.serviceType === 'health') hasHealth = true
-      if (def?.serviceType === 'education') hasEducation = true
+    cityStore.updatePopulationState({
+      health: health === null
+        ? population.health
+        : clamp(lerp(BASE_HEALTH - UNSERVED_PENALTY, 100, health) - sickness, 0, 100),
+      education: education === null
+        ? population.education
+        : lerp(BASE_EDUCATION - UNSERVED_PENALTY, 100, education),
     })
+  }
 
-    if (hasPolice) happiness += 5
-    if (hasFire) happiness += 3
-    if (hasHealth) happiness += 8
-    if (hasEducation) happiness += 7
+  /**
+   * Average a per-tile value over residential buildings, weighted by residents
+   * Returns null when nobody lives in the city yet
+   */
+  private averageOverResidents(value: (key: string) => number): number | null {
+    const { buildings, buildingCatalog } = useCityStore.getState()
+    let total = 0
+    let residents = 0
 
-    // Parks factor
-    let parkCount = 0
     buildings.forEach((building) => {
-      const def = buildingCatalog.find(d => d.id === building.definitionId)
-      if (def?.category === 'park') parkCount++
-    })
-    happiness += Math.min(parkCount * 3, 15)
-
-    // Pollution factor
-    let totalPollution = 0
-    tiles.forEach((tile) => {
-      totalPollution += tile.pollution
+      const definition = buildingCatalog.find(d => d.id === building.definitionId)
+      if (definition?.zone !== 'residential') return
+      const weight = definition.capacity * (building.occupancy / 100)
+      if (weight <= 0) return
+      total += value(gridPositionToKey(building.position)) * weight
+      residents += weight
     })
-    const avgPollution = tiles.size > 0 ? totalPollution / tiles.size : 0
-    happiness -= avgPollution * 0.5
 
-    // Clamp and update immutably using Zustand action
-    const clampedHappiness = clamp(happiness, MIN_HAPPINESS, MAX_HAPPINESS)
-    cityStore.updatePopulationState({
-      happiness: clampedHappiness,
-    })
+    return residents > 0 ? total / residents : null
   }
 
   /**
@@ -284,16 +361,4 @@ export class PopulationSystem extends BaseSimulationSystem {
   getState(): PopulationState {
     return useCityStore.getState().population
   }
-
-  reset(): void {
-    this.lastUpdateDay = -1
-  }
-
-  serialize(): unknown {
-    return this.getState()
-  }
-
-  deserialize(data: unknown): void {
-    // Population state is managed by cityStore
-  }
 }
@@ -0,0 +1,139 @@
+import { PeriodicSimulationSystem } from './SimulationManager'
+import {
+  CoverageServices,
+  CoverageServiceState,
+  CoverageServiceType,
+} from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
+import {
+  SERVICE_RADIUS,
+  SERVICE_EFFICIENCY_DECAY,
+  ROAD_ACCESS_DISTANCE,
+} from '@/lib/constants'
+import { gridPositionToKey, isValidGridPosition, manhattanDistance } from '@/lib/utils'
+
+export const COVERAGE_SERVICES: CoverageServiceType[] = ['police', 'fire', 'health', 'education']
+
+function emptyCoverage(): CoverageServiceState {
+  return { coverage: 0, buildings: [], coveredTiles: new Set(), levels: new Map() }
+}
+
+export const EMPTY_COVERAGE: CoverageServices = {
+  police: emptyCoverage(),
+  fire: emptyCoverage(),
+  health: emptyCoverage(),
+  education: emptyCoverage(),
+}
+
+/**
+ * Efficiency of a service at a travel distance from its building
+ */
+export function getServiceEfficiency(distance: number, radius: number): number {
+  if (distance <= radius) return 1
+  return Math.max(1 - (distance - radius) * SERVICE_EFFICIENCY_DECAY, 0)
+}
+
+/**
+ * Coverage level of a service on a tile (0-1)
+ */
+export function getCoverageAt(services: CoverageServices, type: CoverageServiceType, key: string): number {
+  return services[type].levels.get(key) ?? 0
+}
+
+/**
+ * Civic services simulation system
+ * Police, fire, health and education buildings cover the lots along the
+ * roads they can drive to. Coverage is full within the service radius and
+ * falls off with travel distance beyond it
+ */
+export class ServicesSystem extends PeriodicSimulationSystem {
+  name = 'services'
+  priority = 25
+
+  protected readonly period = 'hour'
+
+  protected tick(): void {
+    this.calculateCoverage()
+  }
+
+  /**
+   * Spread every working service building over the road network
+   */
+  private calculateCoverage(): void {
+    const cityStore = useCityStore.getState()
+    const { buildings, roads, getBuildingDefinition } = cityStore
+    const network = getRoadNetwork()
+
+    const services: CoverageServices = {
+      police: emptyCoverage(),
+      fire: emptyCoverage(),
+      health: emptyCoverage(),
+      education: emptyCoverage(),
+    }
+
+    buildings.forEach((building) => {
+      const definition = getBuildingDefinition(building.definitionId)
+      const type = definition?.serviceType as CoverageServiceType | undefined
+      if (!type || !COVERAGE_SERVICES.includes(type)) return
+      if (!building.isActive || !building.isPowered) return
+
+      const service = services[type]
+      service.buildings.push(building.id)
+
+      // Crews leave from the nearest road and drive out from there
+      const entrance = network.getNearestRoad(building.position, ROAD_ACCESS_DISTANCE)
+      if (!entrance) return
+
+      const radius = definition!.serviceRadius ?? SERVICE_RADIUS[type]
+      const reach = radius + 1 / SERVICE_EFFICIENCY_DECAY
+      const start = manhattanDistance(building.position, entrance.position)
+
+      network.getTravelDistances(entrance.id, reach - start).forEach((cost, roadId) => {
+        const road = roads.get(roadId)
+        if (!road) return
+
+        // Lots are served from the roads they front onto
+        for (let dx = -ROAD_ACCESS_DISTANCE; dx <= ROAD_ACCESS_DISTANCE; dx++) {
+          const range = ROAD_ACCESS_DISTANCE - Math.abs(dx)
+          for (let dz = -range; dz <= range; dz++) {
+            const position = { x: road.position.x + dx, z: road.position.z + dz }
+            if (!isValidGridPosition(position)) continue
+
+            const level = getServiceEfficiency(start + cost + Math.abs(dx) + Math.abs(dz), radius)
+            const key = gridPositionToKey(position)
+            if (level > (service.levels.get(key) ?? 0)) service.levels.set(key, level)
+          }
+        }
+      })
+    })
+
+    // Coverage is the share of zoned buildings that are served at all
+    let zoned = 0
+    const served = { police: 0, fire: 0, health: 0, education: 0 }
+    buildings.forEach((building) => {
+      if (!getBuildingDefinition(building.definitionId)?.zone) return
+      zoned++
+      const key = gridPositionToKey(building.position)
+      COVERAGE_SERVICES.forEach((type) => {
+        if (services[type].levels.has(key)) served[type]++
+      })
+    })
+
+    COVERAGE_SERVICES.forEach((type) => {
+      const service = services[type]
+      service.coveredTiles = new Set(service.levels.keys())
+      service.coverage = zoned > 0 ? Math.round((served[type] / zoned) * 100) : 0
+    })
+
+    cityStore.updateServices(services)
+  }
+
+  getState(): CoverageServices {
+    return useCityStore.getState().services
+  }
+
+  protected needsRefresh(): boolean {
+    return useCityStore.getState().services === EMPTY_COVERAGE
+  }
+}
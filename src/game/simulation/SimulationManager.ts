@@ -1,5 +1,6 @@
 import { ISimulationSystem, GameTime } from '@/types/game.types'
 import { EventBus } from '../core/EventBus'
+import { MINUTES_PER_HOUR } from '@/lib/constants'
 
 /**
  * Base class for simulation systems
@@ -20,12 +21,65 @@ export abstract class BaseSimulationSystem implements ISimulationSystem {
   }
 }
 
+/**
+ * Base class for systems that run once per game hour or day
+ * The period last run is the system's only state of its own, and is saved
+ * with it. needsRefresh lets a system run again within the same period,
+ * e.g. when a load cleared the derived state it keeps in the city store
+ */
+export abstract class PeriodicSimulationSystem extends BaseSimulationSystem {
+  protected abstract readonly period: 'hour' | 'day'
+  private lastPeriod = -1
+
+  update(delta: number, gameTime: GameTime): void {
+    const current = this.period === 'hour'
+      ? Math.floor(gameTime.totalMinutes / MINUTES_PER_HOUR)
+      : gameTime.day
+    if (current === this.lastPeriod && !this.needsRefresh()) return
+    const elapsed = current !== this.lastPeriod && this.lastPeriod >= 0
+    this.lastPeriod = current
+
+    this.tick(gameTime, elapsed)
+  }
+
+  /**
+   * Run the system for the current period; elapsed is false on the first
+   * run after a reset and on refreshes
+   */
+  protected abstract tick(gameTime: GameTime, elapsed: boolean): void
+
+  protected needsRefresh(): boolean {
+    return false
+  }
+
+  reset(): void {
+    this.lastPeriod = -1
+  }
+
+  serialize(): Record<string, unknown> {
+    return { [this.cursorKey()]: this.lastPeriod }
+  }
+
+  deserialize(data: unknown): void {
+    const state = data as Record<string, number | undefined>
+    this.lastPeriod = state[this.cursorKey()] ?? -1
+  }
+
+  // Named as saves have always stored it
+  private cursorKey(): string {
+    return this.period === 'hour' ? 'lastUpdateHour' : 'lastUpdateDay'
+  }
+}
+
 /**
  * Manages all simulation systems
  */
 export class SimulationManager {
   private static instance: SimulationManager | null = null
   private systems: Map<string, ISimulationSystem> = new Map()
+  // State restored before its system was registered, e.g. a city hydrated
+  // from storage before the game registers the systems
+  private pending: Record<string, unknown> = {}
 
   private constructor() {}
 
@@ -41,6 +95,10 @@ export class SimulationManager {
    */
   register(system: ISimulationSystem): void {
     this.systems.set(system.name, system)
+    if (this.pending[system.name]) {
+      system.deserialize(this.pending[system.name])
+      delete this.pending[system.name]
+    }
   }
 
   /**
@@ -75,6 +133,7 @@ export class SimulationManager {
    */
   reset(): void {
     this.systems.forEach(system => system.reset())
+    this.pending = {}
   }
 
   /**
@@ -92,10 +151,11 @@ export class SimulationManager {
    * Deserialize all systems
    */
   deserialize(data: Record<string, unknown>): void {
-    this.systems.forEach((system, name) => {
-      if (data[name]) {
-        system.deserialize(data[name])
-      }
+    Object.entries(data).forEach(([name, state]) => {
+      const system = this.systems.get(name)
+      if (!state) return
+      if (system) system.deserialize(state)
+      else this.pending[name] = state
     })
   }
 }
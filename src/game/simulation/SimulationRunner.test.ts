@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SimulationRunner } from './SimulationRunner'
+import { createFixtureSave } from '@/test/fixtures'
+
+const TWO_DAYS = 2 * 24 * 60
+
+describe('SimulationRunner', () => {
+  beforeEach(() => {
+    // Wall-clock stamps (createdAt, timestamp) are not part of the simulation
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('replays a save into the same city with the same seed', () => {
+    const save = createFixtureSave()
+
+    const first = new SimulationRunner().run(save, TWO_DAYS, 42)
+    const second = new SimulationRunner().run(save, TWO_DAYS, 42)
+
+    expect(first.minutesSimulated).toBe(TWO_DAYS)
+    expect(first.metrics).toHaveLength(2)
+    expect(first.snapshot.buildings.length).toBeGreaterThan(save.buildings.length)
+    expect(second.metrics).toEqual(first.metrics)
+    expect(second.snapshot).toEqual(first.snapshot)
+  })
+
+  it('leaves the input save untouched', () => {
+    const save = createFixtureSave()
+    const copy = structuredClone(save)
+
+    new SimulationRunner().run(save, 60, 42)
+
+    expect(save).toEqual(copy)
+  })
+
+  it('steps the game clock by the requested minutes', () => {
+    const save = createFixtureSave()
+
+    const { snapshot } = new SimulationRunner().run(save, 90, 42)
+
+    expect(snapshot.gameTime.totalMinutes).toBe(save.gameTime.totalMinutes + 90)
+  })
+})
@@ -1,7 +1,13 @@
 import { BaseSimulationSystem } from './SimulationManager'
 import { GameTime, GridPosition } from '@/types/game.types'
-import { TrafficState, Vehicle, VehicleType, PathfindingResult } from '@/types/simulation.types'
+import {
+  TrafficState,
+  Vehicle,
+  VehicleType,
+  ROAD_CLASSES,
+} from '@/types/simulation.types'
 import { useCityStore } from '@/stores/cityStore'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
 import {
   MAX_VEHICLES,
   VEHICLE_SPEED,
@@ -9,14 +15,17 @@ import {
   CONGESTION_THRESHOLD,
 } from '@/lib/constants'
 import { 
-  generateId, 
+  generateEntityId, 
   gridToWorld, 
   gridPositionToKey, 
-  getAdjacentTiles,
-  manhattanDistance,
   randomElement,
+  randomRange,
+  randomChance,
 } from '@/lib/utils'
 
+// Vehicle speed is relative to a plain road
+const REFERENCE_SPEED = ROAD_CLASSES.road.speedLimit
+
 /**
  * Traffic simulation system
  * Handles vehicle spawning, movement, and pathfinding
@@ -77,7 +86,7 @@ export class TrafficSystem extends BaseSimulationSystem {
       
       const spawnChance = VEHICLE_SPAWN_RATE * residentialBuildings.length
       
-      if (Math.random() < spawnChance) {
+      if (randomChance(spawnChance)) {
         const start = randomElement(residentialBuildings)
         const destinations = [...commercialBuildings, ...industrialBuildings]
         const end = randomElement(destinations)
@@ -92,18 +101,18 @@ export class TrafficSystem extends BaseSimulationSystem {
    */
   private createVehicle(start: GridPosition, end: GridPosition): void {
     // Find path
-    const path = this.findPath(start, end)
+    const path = getRoadNetwork().findPathBetween(start, end)
     if (!path.found || path.path.length < 2) return
 
     const startWorld = gridToWorld(start)
     const vehicle: Vehicle = {
-      id: generateId(),
-      type: Math.random() < 0.9 ? 'car' : 'truck',
+      id: generateEntityId(),
+      type: randomChance(0.9) ? 'car' : 'truck',
       position: { x: startWorld.x, y: 0, z: startWorld.z },
       targetPosition: { x: startWorld.x, y: 0, z: startWorld.z },
       path: path.path,
       currentPathIndex: 0,
-      speed: VEHICLE_SPEED * (0.8 + Math.random() * 0.4), // Slight speed variation
+      speed: VEHICLE_SPEED * randomRange(0.8, 1.2), // Slight speed variation
       state: 'moving',
     }
 
@@ -115,6 +124,7 @@ export class TrafficSystem extends BaseSimulationSystem {
    */
   private updateVehicles(delta: number): void {
     const toRemove: string[] = []
+    const { tiles, roads } = useCityStore.getState()
 
     this.vehicles.forEach((vehicle, id) => {
       if (vehicle.state === 'parked') {
@@ -145,13 +155,15 @@ export class TrafficSystem extends BaseSimulationSystem {
         vehicle.position.x = targetWorld.x
         vehicle.position.z = targetWorld.z
       } else {
-        // Check congestion
+        // Check congestion against what the road class can carry
         const congestionKey = gridPositionToKey(target)
-        const congestion = this.congestionMap.get(congestionKey) || 0
+        const roadId = tiles.get(congestionKey)?.roadId
+        const roadClass = ROAD_CLASSES[(roadId && roads.get(roadId)?.type) || 'road']
+        const congestion = (this.congestionMap.get(congestionKey) || 0) / roadClass.capacity
         const speedMultiplier = congestion > CONGESTION_THRESHOLD ? 0.5 : 1
 
         // Move
-        const moveSpeed = vehicle.speed * speedMultiplier * delta
+        const moveSpeed = vehicle.speed * (roadClass.speedLimit / REFERENCE_SPEED) * speedMultiplier * delta
         const factor = Math.min(moveSpeed / distance, 1)
         
         vehicle.position.x += dx * factor
@@ -187,148 +199,10 @@ export class TrafficSystem extends BaseSimulationSystem {
     roads.forEach((road) => {
       const key = gridPositionToKey(road.position)
       const vehicleCount = this.congestionMap.get(key) || 0
-      road.trafficLoad = Math.min(vehicleCount / 3, 1) // Normalize to 0-1
+      road.trafficLoad = Math.min(vehicleCount / ROAD_CLASSES[road.type].capacity, 1) // Normalize to 0-1
     })
   }
 
-  /**
-   * Simple A* pathfinding
-   */
-  private findPath(start: GridPosition, end: GridPosition): PathfindingResult {
-    const cityStore = useCityStore.getState()
-    const { tiles, roads } = cityStore
-
-    // Check if there are roads
-    if (roads.size === 0) {
-      return { path: [], cost: 0, found: false }
-    }
-
-    // Build road position set for quick lookup
-    const roadPositions = new Set<string>()
-    roads.forEach((road) => {
-      roadPositions.add(gridPositionToKey(road.position))
-    })
-
-    // Find nearest road to start and end
-    const startRoad = this.findNearestRoad(start, roadPositions)
-    const endRoad = this.findNearestRoad(end, roadPositions)
-
-    if (!startRoad || !endRoad) {
-      return { path: [], cost: 0, found: false }
-    }
-
-    // A* implementation
-    const openSet = new Map<string, {
-      pos: GridPosition
-      g: number
-      h: number
-      f: number
-      parent: string | null
-    }>()
-
-    const closedSet = new Set<string>()
-
-    const startKey = gridPositionToKey(startRoad)
-    openSet.set(startKey, {
-      pos: startRoad,
-      g: 0,
-      h: manhattanDistance(startRoad, endRoad),
-      f: manhattanDistance(startRoad, endRoad),
-      parent: null,
-    })
-
-    while (openSet.size > 0) {
-      // Find node with lowest f
-      let currentKey = ''
-      let lowestF = Infinity
-
-      openSet.forEach((node, key) => {
-        if (node.f < lowestF) {
-          lowestF = node.f
-          currentKey = key
-        }
-      })
-
-      const current = openSet.get(currentKey)!
-      
-      // Check if reached end
-      if (currentKey === gridPositionToKey(endRoad)) {
-        // Reconstruct path
-        const path: GridPosition[] = []
-        let pathKey: string | null = currentKey
-
-        while (pathKey) {
-          const node = openSet.get(pathKey) || 
-                       Array.from(closedSet).find(k => k === pathKey) ? 
-                       { pos: keyToPos(pathKey), parent: null } : null
-          
-          if (node) {
-            path.unshift(current.pos)
-          }
-          
-          // Find parent
-          const parentNode = openSet.get(pathKey)
-          pathKey = parentNode?.parent || null
-        }
-
-        return { path, cost: current.g, found: true }
-      }
-
-      // Move to closed set
-      openSet.delete(currentKey)
-      closedSet.add(currentKey)
-
-      // Check neighbors
-      const neighbors = getAdjacentTiles(current.pos)
-
-      for (const neighbor of neighbors) {
-        const neighborKey = gridPositionToKey(neighbor)
-
-        // Skip if not a road or already closed
-        if (!roadPositions.has(neighborKey) || closedSet.has(neighborKey)) {
-          continue
-        }
-
-        const tentativeG = current.g + 1
-
-        const existing = openSet.get(neighborKey)
-        if (!existing || tentativeG < existing.g) {
-          openSet.set(neighborKey, {
-            pos: neighbor,
-            g: tentativeG,
-            h: manhattanDistance(neighbor, endRoad),
-            f: tentativeG + manhattanDistance(neighbor, endRoad),
-            parent: currentKey,
-          })
-        }
-      }
-
-      // Prevent infinite loop
-      if (closedSet.size > 1000) break
-    }
-
-    return { path: [], cost: 0, found: false }
-  }
-
-  /**
-   * Find nearest road tile to a position
-   */
-  private findNearestRoad(pos: GridPosition, roadPositions: Set<string>): GridPosition | null {
-    let nearest: GridPosition | null = null
-    let nearestDist = Infinity
-
-    roadPositions.forEach((key) => {
-      const roadPos = keyToPos(key)
-      const dist = manhattanDistance(pos, roadPos)
-      if (dist < nearestDist) {
-        nearestDist = dist
-        nearest = roadPos
-      }
-    })
-
-    return nearest
-  }
-
   /**
    * Get all vehicles
    */
@@ -361,17 +235,16 @@ export class TrafficSystem extends BaseSimulationSystem {
   serialize(): unknown {
     return {
       vehicles: Array.from(this.vehicles.values()),
+      lastSpawnTime: this.lastSpawnTime,
     }
   }
 
   deserialize(data: unknown): void {
-    // Traffic state can be regenerated
+    const state = data as { vehicles?: Vehicle[]; lastSpawnTime?: number }
     this.reset()
+    state.vehicles?.forEach(vehicle => this.vehicles.set(vehicle.id, vehicle))
+    this.lastSpawnTime = state.lastSpawnTime ?? 0
+    // Congestion is derived from vehicle positions
+    this.updateCongestion()
   }
 }
-
-// Helper to convert key back to position
-function keyToPos(key: string): GridPosition {
-  const [x, z] = key.split(',').map(Number)
-  return { x, z }
-}
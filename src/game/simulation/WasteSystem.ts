@@ -0,0 +1,353 @@
+import { BaseSimulationSystem } from './SimulationManager'
+import { GameEvents } from '@/game/core/EventBus'
+import { GameTime, TileData } from '@/types/game.types'
+import { Building } from '@/types/building.types'
+import { GarbageTruck, WasteState } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
+import {
+  GARBAGE_PER_PERSON,
+  GARBAGE_MAX,
+  GARBAGE_PICKUP_THRESHOLD,
+  GARBAGE_TRUCK_CAPACITY,
+  GARBAGE_TRUCK_SPEED,
+  GARBAGE_TRUCKS_PER_DEPOT,
+  GARBAGE_STOCKPILE_LIMIT,
+  HOURS_PER_DAY,
+  MINUTES_PER_HOUR,
+  ROAD_ACCESS_DISTANCE,
+  SERVICE_RADIUS,
+} from '@/lib/constants'
+import { generateEntityId, gridPositionToKey } from '@/lib/utils'
+
+export const EMPTY_WASTE_STATE: WasteState = {
+  production: 0,
+  uncollected: 0,
+  stockpile: 0,
+  landfillUsed: 0,
+  landfillCapacity: 0,
+  incineration: 0,
+  depots: 0,
+}
+
+// Minutes simulated at most in one update, after a stall or at high speed
+const MAX_STEP_MINUTES = 60
+
+interface DepotRoute {
+  roadId: string // Where the trucks leave from
+  reach: Map<string, number> // road id -> travel cost
+}
+
+interface Pickup {
+  buildingId: string
+  roadId: string
+}
+
+/**
+ * Waste simulation system
+ * Occupied buildings pile up garbage every hour. Depots send trucks along
+ * the roads to collect it, and the load is burned in incinerators or
+ * buried in landfills. Garbage nobody collects stays on the lot
+ */
+export class WasteSystem extends BaseSimulationSystem {
+  name = 'waste'
+  priority = 28
+
+  private lastMinute = -1
+  private trucks: GarbageTruck[] = []
+  private stockpile = 0
+  private landfills = new Map<string, number>() // building id -> garbage buried
+  private routes = new Map<string, DepotRoute>() // depot id -> route
+  private pickups: Pickup[] = []
+  private overflowing = false
+
+  update(delta: number, gameTime: GameTime): void {
+    const now = gameTime.totalMinutes
+    const elapsed = now - this.lastMinute
+    const loaded = useCityStore.getState().waste === EMPTY_WASTE_STATE
+    if (elapsed === 0 && !loaded) return
+
+    // Start counting on the first update and after time jumps back
+    const first = this.lastMinute < 0 || elapsed < 0
+    const newHour = Math.floor(now / MINUTES_PER_HOUR) !== Math.floor(this.lastMinute / MINUTES_PER_HOUR)
+    this.lastMinute = now
+
+    if (!first && newHour) {
+      this.produceGarbage()
+      this.disposeGarbage()
+    }
+    if (newHour || loaded) {
+      this.planRoutes()
+      this.publish()
+    }
+    if (!first && elapsed > 0) this.moveTrucks(Math.min(elapsed, MAX_STEP_MINUTES))
+    this.dispatchTrucks()
+  }
+
+  /**
+   * Add an hour of garbage to every occupied building
+   */
+  private produceGarbage(): void {
+    const cityStore = useCityStore.getState()
+    const { tiles, buildings, getBuildingDefinition } = cityStore
+
+    const levels = new Map<string, number>()
+    buildings.forEach((building) => {
+      const definition = getBuildingDefinition(building.definitionId)
+      if (!definition?.zone) return
+      const people = (definition.capacity + definition.jobs) * (building.occupancy / 100)
+      const garbage = this.getGarbage(building) + people * GARBAGE_PER_PERSON
+      levels.set(building.id, Math.round(Math.min(garbage, GARBAGE_MAX) * 10) / 10)
+    })
+
+    // Lots without a building have nothing left to collect
+    const updates = new Map<string, Partial<TileData>>()
+    tiles.forEach((tile, key) => {
+      const garbage = tile.buildingId ? levels.get(tile.buildingId) ?? 0 : 0
+      if (garbage !== tile.garbage) updates.set(key, { garbage })
+    })
+    cityStore.updateTiles(updates)
+  }
+
+  /**
+   * Burn what the incinerators can take this hour and bury the rest
+   */
+  private disposeGarbage(): void {
+    const { buildings, getBuildingDefinition } = useCityStore.getState()
+
+    const landfills: Building[] = []
+    let incineration = 0
+    buildings.forEach((building) => {
+      const definition = getBuildingDefinition(building.definitionId)
+      if (!definition?.wasteDisposal || !building.isActive) return
+      if (definition.wasteDisposal === 'landfill') landfills.push(building)
+      else if (building.isPowered) incineration += definition.garbageCapacity ?? 0
+    })
+
+    // Forget landfills that were bulldozed
+    this.landfills = new Map(landfills.map(b => [b.id, this.landfills.get(b.id) ?? 0]))
+
+    this.stockpile -= Math.min(this.stockpile, incineration / HOURS_PER_DAY)
+    landfills.forEach((landfill) => {
+      const capacity = getBuildingDefinition(landfill.definitionId)?.garbageCapacity ?? 0
+      const used = this.landfills.get(landfill.id) ?? 0
+      const buried = Math.min(this.stockpile, Math.max(capacity - used, 0))
+      this.landfills.set(landfill.id, used + buried)
+      this.stockpile -= buried
+    })
+
+    const overflowing = this.stockpile >= GARBAGE_STOCKPILE_LIMIT
+    if (overflowing && !this.overflowing) {
+      GameEvents.cityAlert({
+        type: 'warning',
+        title: '🗑️ Çöp birikiyor',
+        message: 'Çöp sahaları ve yakma tesisleri yetersiz, kamyonlar çöp toplayamıyor.',
+      })
+    }
+    this.overflowing = overflowing
+  }
+
+  /**
+   * Find where each depot can drive and which lots need a truck
+   */
+  private planRoutes(): void {
+    const { buildings, getBuildingDefinition } = useCityStore.getState()
+    const network = getRoadNetwork()
+
+    this.routes.clear()
+    this.pickups = []
+
+    buildings.forEach((building) => {
+      const definition = getBuildingDefinition(building.definitionId)
+      if (definition?.serviceType !== 'waste' || definition.wasteDisposal) return
+      if (!building.isActive || !building.isPowered) return
+
+      const entrance = network.getNearestRoad(building.position, ROAD_ACCESS_DISTANCE)
+      if (!entrance) return
+      const radius = definition.serviceRadius ?? SERVICE_RADIUS.waste
+      this.routes.set(building.id, { roadId: entrance.id, reach: network.getTravelDistances(entrance.id, radius) })
+    })
+    if (this.routes.size === 0) return
+
+    const waiting: { pickup: Pickup; garbage: number }[] = []
+    buildings.forEach((building) => {
+      const garbage = this.getGarbage(building)
+      if (garbage < GARBAGE_PICKUP_THRESHOLD) return
+      const road = network.getNearestRoad(building.position, ROAD_ACCESS_DISTANCE)
+      if (road) waiting.push({ pickup: { buildingId: building.id, roadId: road.id }, garbage })
+    })
+
+    // Fullest lots first
+    this.pickups = waiting.sort((a, b) => b.garbage - a.garbage).map(w => w.pickup)
+  }
+
+  /**
+   * Send a truck from the nearest depot with one free to every waiting lot
+   */
+  private dispatchTrucks(): void {
+    if (this.pickups.length === 0 || this.stockpile >= GARBAGE_STOCKPILE_LIMIT) return
+    const network = getRoadNetwork()
+
+    const assigned = new Set(this.trucks.filter(t => t.state === 'collecting').map(t => t.buildingId))
+    const busy = new Map<string, number>()
+    this.trucks.forEach(t => busy.set(t.depotId, (busy.get(t.depotId) ?? 0) + 1))
+
+    this.pickups.forEach((pickup) => {
+      if (assigned.has(pickup.buildingId)) return
+
+      let best: { depotId: string; roadId: string; cost: number } | null = null
+      this.routes.forEach((route, depotId) => {
+        if ((busy.get(depotId) ?? 0) >= GARBAGE_TRUCKS_PER_DEPOT) return
+        const cost = route.reach.get(pickup.roadId)
+        if (cost !== undefined && (!best || cost < best.cost)) {
+          best = { depotId, roadId: route.roadId, cost }
+        }
+      })
+      if (!best) return
+
+      const { depotId, roadId } = best
+      const result = network.findPath(roadId, pickup.roadId)
+      if (!result.found) return
+
+      this.trucks.push({
+        id: generateEntityId(),
+        depotId,
+        buildingId: pickup.buildingId,
+        path: result.path,
+        progress: 0,
+        state: 'collecting',
+        load: 0,
+      })
+      busy.set(depotId, (busy.get(depotId) ?? 0) + 1)
+    })
+  }
+
+  /**
+   * Drive trucks along their paths, load up at the lot and unload at the depot
+   */
+  private moveTrucks(minutes: number): void {
+    this.trucks = this.trucks.filter((truck) => {
+      const end = truck.path.length - 1
+      truck.progress = Math.min(truck.progress + GARBAGE_TRUCK_SPEED * minutes, end)
+      if (truck.progress < end) return true
+
+      if (truck.state === 'collecting') {
+        truck.load = this.collect(truck.buildingId)
+        truck.path = [...truck.path].reverse()
+        truck.progress = 0
+        truck.state = 'returning'
+        return true
+      }
+
+      this.stockpile += truck.load
+      return false
+    })
+  }
+
+  /**
+   * Take up to a truckload of garbage off a building's lot
+   */
+  private collect(buildingId: string): number {
+    const cityStore = useCityStore.getState()
+    const building = cityStore.buildings.get(buildingId)
+    this.pickups = this.pickups.filter(p => p.buildingId !== buildingId)
+    if (!building) return 0
+
+    const garbage = this.getGarbage(building)
+    const load = Math.min(garbage, GARBAGE_TRUCK_CAPACITY)
+    const left = Math.round((garbage - load) * 10) / 10
+
+    const size = cityStore.getBuildingDefinition(building.definitionId)?.size ?? { width: 1, depth: 1 }
+    const updates = new Map<string, Partial<TileData>>()
+    for (let dx = 0; dx < size.width; dx++) {
+      for (let dz = 0; dz < size.depth; dz++) {
+        updates.set(gridPositionToKey({ x: building.position.x + dx, z: building.position.z + dz }), { garbage: left })
+      }
+    }
+    cityStore.updateTiles(updates)
+    return load
+  }
+
+  private getGarbage(building: Building): number {
+    return useCityStore.getState().tiles.get(gridPositionToKey(building.position))?.garbage ?? 0
+  }
+
+  /**
+   * Publish the city-wide waste summary
+   */
+  private publish(): void {
+    const cityStore = useCityStore.getState()
+    const { buildings, getBuildingDefinition } = cityStore
+
+    let production = 0
+    let uncollected = 0
+    let landfillCapacity = 0
+    let incineration = 0
+    buildings.forEach((building) => {
+      const definition = getBuildingDefinition(building.definitionId)
+      if (definition?.zone) {
+        const people = (definition.capacity + definition.jobs) * (building.occupancy / 100)
+        production += people * GARBAGE_PER_PERSON * HOURS_PER_DAY
+        uncollected += this.getGarbage(building)
+      }
+      if (definition?.wasteDisposal === 'landfill' && building.isActive) {
+        landfillCapacity += definition.garbageCapacity ?? 0
+      }
+      if (definition?.wasteDisposal === 'incinerator' && building.isActive && building.isPowered) {
+        incineration += definition.garbageCapacity ?? 0
+      }
+    })
+
+    let landfillUsed = 0
+    this.landfills.forEach(used => { landfillUsed += used })
+
+    cityStore.updateWaste({
+      production: Math.round(production),
+      uncollected: Math.round(uncollected),
+      stockpile: Math.round(this.stockpile),
+      landfillUsed: Math.round(landfillUsed),
+      landfillCapacity,
+      incineration,
+      depots: this.routes.size,
+    })
+  }
+
+  getState(): WasteState & { trucks: GarbageTruck[] } {
+    return { ...useCityStore.getState().waste, trucks: this.trucks }
+  }
+
+  reset(): void {
+    this.lastMinute = -1
+    this.trucks = []
+    this.stockpile = 0
+    this.landfills = new Map()
+    this.routes.clear()
+    this.pickups = []
+    this.overflowing = false
+  }
+
+  serialize(): unknown {
+    // Garbage on the lots lives on the tiles; trucks and disposal live here
+    return {
+      lastMinute: this.lastMinute,
+      trucks: this.trucks,
+      stockpile: this.stockpile,
+      landfills: Array.from(this.landfills.entries()),
+    }
+  }
+
+  deserialize(data: unknown): void {
+    const state = data as {
+      lastMinute?: number
+      trucks?: GarbageTruck[]
+      stockpile?: number
+      landfills?: [string, number][]
+    }
+    this.lastMinute = state.lastMinute ?? -1
+    this.trucks = (state.trucks ?? []).map(t => ({ ...t, path: t.path.map(p => ({ ...p })) }))
+    this.stockpile = state.stockpile ?? 0
+    this.landfills = new Map(state.landfills ?? [])
+    this.routes.clear()
+    this.pickups = []
+  }
+}
@@ -1,29 +1,29 @@
-import { BaseSimulationSystem } from './SimulationManager'
-import { GameTime, ZoneType } from '@/types/game.types'
+import { PeriodicSimulationSystem } from './SimulationManager'
+import { ZoneType } from '@/types/game.types'
 import { ZoningState, ZoneDemand, ZoneDevelopment } from '@/types/simulation.types'
 import { useCityStore } from '@/stores/cityStore'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
+import { getResidentialDesirability } from './PollutionSystem'
+import { pickBuildingForLand } from './LandValueSystem'
 import {
   DEMAND_MIN,
   DEMAND_MAX,
   DEMAND_DECAY_RATE,
+  CRIME_DEMAND_PENALTY,
 } from '@/lib/constants'
-import { clamp } from '@/lib/utils'
+import { clamp, gridPositionToKey, randomChance, randomInt } from '@/lib/utils'
 
 /**
  * Zoning simulation system
  * Manages RCI zones and demand calculations
  */
-export class ZoningSystem extends BaseSimulationSystem {
+export class ZoningSystem extends PeriodicSimulationSystem {
   name = 'zoning'
   priority = 20
 
-  private lastUpdateDay = -1
-
-  update(delta: number, gameTime: GameTime): void {
-    // Only update zoning once per game day
-    if (gameTime.day === this.lastUpdateDay) return
-    this.lastUpdateDay = gameTime.day
+  protected readonly period = 'day'
 
+  protected tick(): void {
     this.calculateDemand()
     this.processDevelopment()
   }
@@ -38,6 +38,7 @@ export class ZoningSystem extends BaseSimulationSystem {
     // Count zone stats
     let residentialCapacity = 0
     let residentialOccupied = 0
+    let residentialCrime = 0
     let commercialJobs = 0
     let commercialOccupied = 0
     let industrialJobs = 0
@@ -45,7 +46,7 @@ export class ZoningSystem extends BaseSimulationSystem {
 
     buildings.forEach((building) => {
       const definition = buildingCatalog.find(d => d.id === building.definitionId)
-      if (!definition) return
+      if (!definition || building.abandoned) return
 
       const occupancy = building.occupancy / 100
 
@@ -53,6 +54,7 @@ export class ZoningSystem extends BaseSimulationSystem {
         case 'residential':
           residentialCapacity += definition.capacity
           residentialOccupied += definition.capacity * occupancy
+          residentialCrime += (tiles.get(gridPositionToKey(building.position))?.crime ?? 0) * definition.capacity
           break
         case 'commercial':
           commercialJobs += definition.jobs
@@ -97,6 +99,9 @@ export class ZoningSystem extends BaseSimulationSystem {
     } else if (residentialCapacity > (commercialJobs + industrialJobs) * 1.5) {
       newResidentialDemand -= 3 // Too much housing
     }
+    if (residentialCapacity > 0) {
+      newResidentialDemand -= (residentialCrime / residentialCapacity) * CRIME_DEMAND_PENALTY // Crime keeps newcomers away
+    }
 
     // Commercial demand: based on population
     let newCommercialDemand = zoneDemand.commercial
@@ -127,7 +132,7 @@ export class ZoningSystem extends BaseSimulationSystem {
     }
 
     // Update store
-    Object.assign(cityStore.zoneDemand, newDemand)
+    cityStore.updateZoneDemand(newDemand)
   }
 
   /**
@@ -139,14 +144,22 @@ export class ZoningSystem extends BaseSimulationSystem {
     const { tiles, buildings, buildingCatalog, zoneDemand, economy } = cityStore
 
     // Find empty zone tiles with high demand
-    const developableTiles: { position: { x: number; z: number }; zone: ZoneType }[] = []
+    const developableTiles: { position: { x: number; z: number }; zone: ZoneType; landValue: number }[] = []
+
+    const network = getRoadNetwork()
 
     tiles.forEach((tile) => {
-      if (tile.zone && !tile.buildingId && !tile.roadId) {
+      if (tile.zone && !tile.buildingId && !tile.roadId && tile.type !== 'rubble') {
+        // Lots without a road to the city do not develop
+        if (!network.hasRoadAccess(tile.position)) return
+
+        // Polluted lots are less likely to find residents
+        if (tile.zone === 'residential' && !randomChance(getResidentialDesirability(tile))) return
+
         // Check demand for this zone
         const demand = zoneDemand[tile.zone]
         if (demand > 30) { // Only develop if demand is high enough
-          developableTiles.push({ position: tile.position, zone: tile.zone })
+          developableTiles.push({ position: tile.position, zone: tile.zone, landValue: tile.landValue })
         }
       }
     })
@@ -165,16 +178,15 @@ export class ZoningSystem extends BaseSimulationSystem {
         b.cost <= economy.balance * 0.1 // Max 10% of budget
       )
 
-      if (suitableBuildings.length === 0) continue
-
-      // Pick random building
-      const building = suitableBuildings[Math.floor(Math.random() * suitableBuildings.length)]
+      // Pick the best building the land is worth
+      const building = pickBuildingForLand(suitableBuildings, developable.landValue)
+      if (!building) continue
 
       // Place building
       const placed = cityStore.placeBuilding(
         building.id,
         developable.position,
-        Math.floor(Math.random() * 4) * 90 // Random rotation
+        randomInt(0, 3) * 90 // Random rotation
       )
 
       if (placed) {
@@ -198,7 +210,7 @@ export class ZoningSystem extends BaseSimulationSystem {
         zones.set(`${tile.position.x},${tile.position.z}`, {
           position: tile.position,
           type: tile.zone,
-          developmentLevel: 0,
+          developmentLevel: tile.buildingId ? buildings.get(tile.buildingId)?.level ?? 0 : 0,
           isOccupied: !!tile.buildingId,
           buildingId: tile.buildingId,
         })
@@ -233,16 +245,4 @@ export class ZoningSystem extends BaseSimulationSystem {
 
     return development
   }
-
-  reset(): void {
-    this.lastUpdateDay = -1
-  }
-
-  serialize(): unknown {
-    return this.getState()
-  }
-
-  deserialize(data: unknown): void {
-    // Zoning state is managed by cityStore
-  }
 }
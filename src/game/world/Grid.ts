@@ -34,9 +34,14 @@ export class Grid {
           buildingId: null,
           roadId: null,
           zone: null,
+          pipe: false,
+          fire: 0,
+          garbage: 0,
           elevation: 0,
           landValue: 50,
           pollution: 0,
+          groundPollution: 0,
+          noise: 0,
           crime: 0,
           traffic: 0,
         })
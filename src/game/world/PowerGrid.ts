@@ -0,0 +1,190 @@
+import { GridPosition } from '@/types/game.types'
+import { Building } from '@/types/building.types'
+import { PowerServiceState } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getAdjacentTiles, gridPositionToKey } from '@/lib/utils'
+
+export const EMPTY_POWER_STATE: PowerServiceState = {
+  production: 0,
+  consumption: 0,
+  surplus: 0,
+  coverage: 0,
+  buildings: [],
+}
+
+interface Consumer {
+  building: Building
+  demand: number
+  distance: number
+}
+
+/**
+ * Power network over conducting tiles
+ * Buildings, roads and power lines carry power to their 4 neighbors.
+ * Each connected grid shares the output of its plants; consumers are
+ * served nearest first, so an overloaded grid browns out at its edges
+ */
+export class PowerGrid {
+  private gridOf = new Map<string, number>()
+  private spare = new Map<number, number>()
+  private state: PowerServiceState = EMPTY_POWER_STATE
+
+  /**
+   * Recompute the grids from the city store
+   * Returns whether each building is powered
+   */
+  update(): Map<string, boolean> {
+    const { tiles, buildings, getBuildingDefinition } = useCityStore.getState()
+    const powered = new Map<string, boolean>()
+
+    this.gridOf.clear()
+    this.spare.clear()
+
+    const conducts = (key: string) => {
+      const tile = tiles.get(key)
+      return !!tile && (tile.buildingId !== null || tile.roadId !== null)
+    }
+
+    // Plants seed the search; distance is counted in tiles from the nearest plant
+    const plants: Building[] = []
+    const distance = new Map<string, number>()
+    const queue: string[] = []
+    buildings.forEach((building) => {
+      const output = getBuildingDefinition(building.definitionId)?.effects.power ?? 0
+      if (output <= 0 || !building.isActive) return
+      plants.push(building)
+    })
+
+    const plantIds = new Set(plants.map(p => p.id))
+    tiles.forEach((tile, key) => {
+      if (tile.buildingId && plantIds.has(tile.buildingId)) {
+        distance.set(key, 0)
+        queue.push(key)
+      }
+    })
+
+    // Breadth-first search from every plant at once
+    for (let i = 0; i < queue.length; i++) {
+      const key = queue[i]
+      const tile = tiles.get(key)!
+      getAdjacentTiles(tile.position).forEach((position) => {
+        const next = gridPositionToKey(position)
+        if (distance.has(next) || !conducts(next)) return
+        distance.set(next, distance.get(key)! + 1)
+        queue.push(next)
+      })
+    }
+
+    // Label grids so that separate networks do not share capacity
+    let gridCount = 0
+    queue.forEach((key) => {
+      if (this.gridOf.has(key)) return
+      const grid = gridCount++
+      const stack = [key]
+      this.gridOf.set(key, grid)
+      while (stack.length > 0) {
+        const current = stack.pop()!
+        getAdjacentTiles(tiles.get(current)!.position).forEach((position) => {
+          const next = gridPositionToKey(position)
+          if (this.gridOf.has(next) || !distance.has(next)) return
+          this.gridOf.set(next, grid)
+          stack.push(next)
+        })
+      }
+    })
+
+    const gridOfBuilding = (building: Building) => this.gridOf.get(gridPositionToKey(building.position))
+
+    let production = 0
+    plants.forEach((plant) => {
+      const output = getBuildingDefinition(plant.definitionId)!.effects.power
+      const grid = gridOfBuilding(plant)!
+      this.spare.set(grid, (this.spare.get(grid) ?? 0) + output)
+      production += output
+      powered.set(plant.id, true)
+    })
+
+    // A building is as close as its nearest tile
+    const buildingDistance = new Map<string, number>()
+    distance.forEach((d, key) => {
+      const buildingId = tiles.get(key)!.buildingId
+      if (buildingId && d < (buildingDistance.get(buildingId) ?? Infinity)) {
+        buildingDistance.set(buildingId, d)
+      }
+    })
+
+    const consumers: Consumer[] = []
+    let consumerCount = 0
+    buildings.forEach((building) => {
+      if (powered.has(building.id)) return
+      const demand = -(getBuildingDefinition(building.definitionId)?.effects.power ?? 0)
+      if (demand > 0) consumerCount++
+
+      const d = buildingDistance.get(building.id)
+      if (d === undefined) {
+        powered.set(building.id, false)
+        return
+      }
+      consumers.push({ building, demand: Math.max(demand, 0), distance: d })
+    })
+
+    // Serve nearest first; once a grid runs out, everything further away is dark
+    let consumption = 0
+    let servedCount = 0
+    const exhausted = new Set<number>()
+    consumers
+      .sort((a, b) => a.distance - b.distance)
+      .forEach(({ building, demand }) => {
+        const grid = gridOfBuilding(building)!
+        consumption += demand
+        const spare = this.spare.get(grid)!
+
+        if (exhausted.has(grid) || demand > spare) {
+          exhausted.add(grid)
+          powered.set(building.id, false)
+          return
+        }
+
+        this.spare.set(grid, spare - demand)
+        powered.set(building.id, true)
+        if (demand > 0) servedCount++
+      })
+
+    this.state = {
+      production,
+      consumption,
+      surplus: production - consumption,
+      coverage: consumerCount > 0 ? Math.round((servedCount / consumerCount) * 100) : 100,
+      buildings: plants.map(p => p.id),
+    }
+
+    return powered
+  }
+
+  /**
+   * Totals from the last update
+   */
+  getState(): PowerServiceState {
+    return this.state
+  }
+
+  /**
+   * Check whether a lot could connect to a grid with spare capacity
+   */
+  isEnergized(position: GridPosition): boolean {
+    return [position, ...getAdjacentTiles(position)].some((p) => {
+      const grid = this.gridOf.get(gridPositionToKey(p))
+      return grid !== undefined && (this.spare.get(grid) ?? 0) > 0
+    })
+  }
+}
+
+// Singleton instance
+let powerGridInstance: PowerGrid | null = null
+
+export function getPowerGrid(): PowerGrid {
+  if (!powerGridInstance) {
+    powerGridInstance = new PowerGrid()
+  }
+  return powerGridInstance
+}
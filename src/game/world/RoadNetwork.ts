@@ -0,0 +1,464 @@
+import { GridPosition } from '@/types/game.types'
+import { Road, RoadType, PathfindingResult, ROAD_CLASSES } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { EventBus } from '@/game/core/EventBus'
+import { ROAD_ACCESS_DISTANCE, ROAD_PATH_CACHE_SIZE } from '@/lib/constants'
+import { gridPositionToKey, manhattanDistance } from '@/lib/utils'
+
+// Travel costs are relative to a plain road
+const REFERENCE_SPEED = ROAD_CLASSES.road.speedLimit
+const MIN_TRAVEL_COST = REFERENCE_SPEED / Math.max(...Object.values(ROAD_CLASSES).map(c => c.speedLimit))
+
+/**
+ * Cost of driving through one tile of a road class
+ */
+export function getTravelCost(type: RoadType): number {
+  return REFERENCE_SPEED / ROAD_CLASSES[type].speedLimit
+}
+
+interface CachedPath {
+  component: number
+  result: PathfindingResult
+}
+
+/**
+ * Least recently used cache on top of Map insertion order
+ */
+class LRUCache<V> {
+  private entries = new Map<string, V>()
+
+  constructor(private capacity: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key)
+    if (value !== undefined) {
+      this.entries.delete(key)
+      this.entries.set(key, value)
+    }
+    return value
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as string)
+    }
+  }
+
+  deleteWhere(predicate: (value: V) => boolean): void {
+    this.entries.forEach((value, key) => {
+      if (predicate(value)) this.entries.delete(key)
+    })
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/**
+ * Road graph shared by traffic, services and zoning
+ * Keeps an adjacency list built from Road.connections, the connected
+ * components and a path cache. Road events update only the affected
+ * components; any other change to the store's roads triggers a rebuild
+ */
+export class RoadNetwork {
+  private adjacency = new Map<string, Set<string>>()
+  private componentOf = new Map<string, number>()
+  private components = new Map<number, Set<string>>()
+  private byPosition = new Map<string, string>()
+  private positionOf = new Map<string, string>()
+  private nextComponentId = 0
+  private pathCache: LRUCache<CachedPath>
+  private syncedRoads: Map<string, Road> | null = null
+  private unsubscribers: (() => void)[] = []
+
+  constructor(cacheSize: number = ROAD_PATH_CACHE_SIZE) {
+    this.pathCache = new LRUCache(cacheSize)
+
+    this.unsubscribers.push(
+      // Changes made without road events (load, reset, undo) force a rebuild
+      useCityStore.subscribe((state, prev) => {
+        if (state.roads !== prev.roads && prev.roads !== this.syncedRoads) {
+          this.syncedRoads = null
+        }
+      }),
+      EventBus.subscribe<{ roadId: string }>('road:placed', (event) => {
+        this.sync(() => this.addRoad(event.payload.roadId))
+      }),
+      EventBus.subscribe<{ roadId: string }>('road:removed', (event) => {
+        this.sync(() => this.removeRoad(event.payload.roadId))
+      })
+    )
+  }
+
+  /**
+   * Stop listening to road events
+   */
+  dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+  }
+
+  /**
+   * Component id of a road, or null if the road is unknown
+   */
+  getComponent(roadId: string): number | null {
+    this.ensureSynced()
+    return this.componentOf.get(roadId) ?? null
+  }
+
+  /**
+   * All connected components as sets of road ids
+   */
+  getComponents(): Set<string>[] {
+    this.ensureSynced()
+    return Array.from(this.components.values())
+  }
+
+  /**
+   * Check whether two roads can reach each other
+   */
+  areConnected(fromRoadId: string, toRoadId: string): boolean {
+    const from = this.getComponent(fromRoadId)
+    return from !== null && from === this.getComponent(toRoadId)
+  }
+
+  /**
+   * The city's main network: the largest connected component
+   */
+  getMainComponent(): number | null {
+    this.ensureSynced()
+    let main: number | null = null
+    let mainSize = 0
+    this.components.forEach((members, component) => {
+      if (members.size > mainSize) {
+        main = component
+        mainSize = members.size
+      }
+    })
+    return main
+  }
+
+  /**
+   * Check whether a tile is within range of a road on the main network
+   */
+  hasRoadAccess(position: GridPosition, maxDistance: number = ROAD_ACCESS_DISTANCE): boolean {
+    const main = this.getMainComponent()
+    if (main === null) return false
+
+    for (let dx = -maxDistance; dx <= maxDistance; dx++) {
+      const range = maxDistance - Math.abs(dx)
+      for (let dz = -range; dz <= range; dz++) {
+        const roadId = this.byPosition.get(gridPositionToKey({ x: position.x + dx, z: position.z + dz }))
+        if (roadId && this.componentOf.get(roadId) === main) return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * Road on a tile
+   */
+  getRoadAt(position: GridPosition): string | null {
+    this.ensureSynced()
+    return this.byPosition.get(gridPositionToKey(position)) ?? null
+  }
+
+  /**
+   * Nearest road to a position (Manhattan distance), optionally within a range
+   */
+  getNearestRoad(position: GridPosition, maxDistance: number = Infinity): Road | null {
+    this.ensureSynced()
+    const { roads } = useCityStore.getState()
+    let nearest: Road | null = null
+    let nearestDistance = maxDistance
+
+    roads.forEach((road) => {
+      const distance = manhattanDistance(position, road.position)
+      if (distance <= nearestDistance && (!nearest || distance < nearestDistance)) {
+        nearest = road
+        nearestDistance = distance
+      }
+    })
+
+    return nearest
+  }
+
+  /**
+   * Shortest path between two roads, weighted by road class travel cost
+   */
+  findPath(fromRoadId: string, toRoadId: string): PathfindingResult {
+    this.ensureSynced()
+    const notFound: PathfindingResult = { path: [], cost: 0, found: false }
+
+    const component = this.componentOf.get(fromRoadId)
+    if (component === undefined || component !== this.componentOf.get(toRoadId)) {
+      return notFound
+    }
+
+    const key = `${fromRoadId}>${toRoadId}`
+    const cached = this.pathCache.get(key)
+    if (cached) return cached.result
+
+    const result = this.search(fromRoadId, toRoadId) ?? notFound
+    this.pathCache.set(key, { component, result })
+    return result
+  }
+
+  /**
+   * Travel cost from a road to every road reachable within a budget
+   */
+  getTravelDistances(fromRoadId: string, maxCost: number): Map<string, number> {
+    this.ensureSynced()
+    const { roads } = useCityStore.getState()
+    const settled = new Map<string, number>()
+    const open = new Map<string, number>([[fromRoadId, 0]])
+    if (!roads.has(fromRoadId) || maxCost < 0) return settled
+
+    while (open.size > 0) {
+      let currentId = ''
+      let lowest = Infinity
+      open.forEach((cost, id) => {
+        if (cost < lowest) {
+          lowest = cost
+          currentId = id
+        }
+      })
+
+      open.delete(currentId)
+      settled.set(currentId, lowest)
+
+      this.adjacency.get(currentId)?.forEach((neighborId) => {
+        const neighbor = roads.get(neighborId)
+        if (!neighbor || settled.has(neighborId)) return
+
+        const cost = lowest + getTravelCost(neighbor.type)
+        if (cost <= maxCost && cost < (open.get(neighborId) ?? Infinity)) {
+          open.set(neighborId, cost)
+        }
+      })
+    }
+
+    return settled
+  }
+
+  /**
+   * Shortest path between the roads nearest to two positions
+   */
+  findPathBetween(from: GridPosition, to: GridPosition): PathfindingResult {
+    const start = this.getNearestRoad(from)
+    const end = this.getNearestRoad(to)
+    if (!start || !end) return { path: [], cost: 0, found: false }
+    return this.findPath(start.id, end.id)
+  }
+
+  /**
+   * Rebuild the whole graph from the city store
+   */
+  rebuild(): void {
+    const { roads } = useCityStore.getState()
+
+    this.adjacency.clear()
+    this.componentOf.clear()
+    this.components.clear()
+    this.byPosition.clear()
+    this.positionOf.clear()
+    this.pathCache.clear()
+
+    roads.forEach((road) => {
+      this.setPosition(road)
+      this.adjacency.set(road.id, new Set())
+    })
+    roads.forEach((road) => {
+      road.connections.forEach((connection) => {
+        if (connection.connectedTo && this.adjacency.has(connection.connectedTo)) {
+          this.adjacency.get(road.id)!.add(connection.connectedTo)
+          this.adjacency.get(connection.connectedTo)!.add(road.id)
+        }
+      })
+    })
+
+    this.adjacency.forEach((_, roadId) => {
+      if (!this.componentOf.has(roadId)) this.labelComponent(roadId, this.nextComponentId++)
+    })
+
+    this.syncedRoads = roads
+  }
+
+  /**
+   * Apply an incremental update if the graph matches the store it was built from
+   */
+  private sync(update: () => void): void {
+    if (this.syncedRoads === null) return
+    update()
+    this.syncedRoads = useCityStore.getState().roads
+  }
+
+  private ensureSynced(): void {
+    if (this.syncedRoads !== useCityStore.getState().roads) {
+      this.rebuild()
+    }
+  }
+
+  private addRoad(roadId: string): void {
+    const road = useCityStore.getState().roads.get(roadId)
+    if (!road || this.adjacency.has(roadId)) return
+
+    const neighbors = new Set<string>()
+    road.connections.forEach((connection) => {
+      if (connection.connectedTo && this.adjacency.has(connection.connectedTo)) {
+        neighbors.add(connection.connectedTo)
+      }
+    })
+
+    this.adjacency.set(roadId, neighbors)
+    neighbors.forEach(id => this.adjacency.get(id)!.add(roadId))
+    this.setPosition(road)
+
+    // Join every neighboring component into the largest one
+    const touched = new Set(Array.from(neighbors).map(id => this.componentOf.get(id)!))
+    if (touched.size === 0) {
+      const component = this.nextComponentId++
+      this.components.set(component, new Set([roadId]))
+      this.componentOf.set(roadId, component)
+      return
+    }
+
+    const [target, ...others] = Array.from(touched)
+      .sort((a, b) => this.components.get(b)!.size - this.components.get(a)!.size)
+    const members = this.components.get(target)!
+    others.forEach((component) => {
+      this.components.get(component)!.forEach((id) => {
+        members.add(id)
+        this.componentOf.set(id, target)
+      })
+      this.components.delete(component)
+    })
+    members.add(roadId)
+    this.componentOf.set(roadId, target)
+
+    // A new link can shorten paths inside the joined components
+    this.pathCache.deleteWhere(entry => touched.has(entry.component))
+  }
+
+  private removeRoad(roadId: string): void {
+    const neighbors = this.adjacency.get(roadId)
+    const component = this.componentOf.get(roadId)
+    if (!neighbors || component === undefined) return
+
+    neighbors.forEach(id => this.adjacency.get(id)?.delete(roadId))
+    this.adjacency.delete(roadId)
+    this.componentOf.delete(roadId)
+    this.byPosition.delete(this.positionOf.get(roadId)!)
+    this.positionOf.delete(roadId)
+
+    // The component may have split; relabel it from each former neighbor
+    const members = this.components.get(component)!
+    members.delete(roadId)
+    this.components.delete(component)
+    members.forEach(id => this.componentOf.delete(id))
+    members.forEach((id) => {
+      if (!this.componentOf.has(id)) this.labelComponent(id, this.nextComponentId++)
+    })
+
+    this.pathCache.deleteWhere(entry => entry.component === component)
+  }
+
+  private setPosition(road: Road): void {
+    const key = gridPositionToKey(road.position)
+    this.byPosition.set(key, road.id)
+    this.positionOf.set(road.id, key)
+  }
+
+  /**
+   * Flood fill from a road and give everything reached one component id
+   */
+  private labelComponent(startId: string, component: number): void {
+    const members = new Set<string>([startId])
+    const queue = [startId]
+    this.componentOf.set(startId, component)
+
+    while (queue.length > 0) {
+      const id = queue.pop()!
+      this.adjacency.get(id)!.forEach((neighbor) => {
+        if (members.has(neighbor)) return
+        members.add(neighbor)
+        this.componentOf.set(neighbor, component)
+        queue.push(neighbor)
+      })
+    }
+
+    this.components.set(component, members)
+  }
+
+  /**
+   * A* over the adjacency graph
+   */
+  private search(fromRoadId: string, toRoadId: string): PathfindingResult | null {
+    const { roads } = useCityStore.getState()
+    const goal = roads.get(toRoadId)
+    if (!goal || !roads.has(fromRoadId)) return null
+
+    const estimate = (id: string) =>
+      manhattanDistance(roads.get(id)!.position, goal.position) * MIN_TRAVEL_COST
+
+    const g = new Map<string, number>([[fromRoadId, 0]])
+    const parents = new Map<string, string | null>([[fromRoadId, null]])
+    const open = new Map<string, number>([[fromRoadId, estimate(fromRoadId)]])
+    const closed = new Set<string>()
+
+    while (open.size > 0) {
+      let currentId = ''
+      let lowest = Infinity
+      open.forEach((f, id) => {
+        if (f < lowest) {
+          lowest = f
+          currentId = id
+        }
+      })
+
+      if (currentId === toRoadId) {
+        const path: GridPosition[] = []
+        let id: string | null = currentId
+        while (id) {
+          path.unshift(roads.get(id)!.position)
+          id = parents.get(id) ?? null
+        }
+        return { path, cost: g.get(currentId)!, found: true }
+      }
+
+      open.delete(currentId)
+      closed.add(currentId)
+
+      this.adjacency.get(currentId)?.forEach((neighborId) => {
+        const neighbor = roads.get(neighborId)
+        if (!neighbor || closed.has(neighborId)) return
+
+        const tentative = g.get(currentId)! + getTravelCost(neighbor.type)
+        if (tentative < (g.get(neighborId) ?? Infinity)) {
+          g.set(neighborId, tentative)
+          parents.set(neighborId, currentId)
+          open.set(neighborId, tentative + estimate(neighborId))
+        }
+      })
+    }
+
+    return null
+  }
+}
+
+// Singleton instance
+let roadNetworkInstance: RoadNetwork | null = null
+
+export function getRoadNetwork(): RoadNetwork {
+  if (!roadNetworkInstance) {
+    roadNetworkInstance = new RoadNetwork()
+  }
+  return roadNetworkInstance
+}
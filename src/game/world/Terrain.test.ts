@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { GridPosition, TileData } from '@/types/game.types'
+import { useCityStore } from '@/stores/cityStore'
+import { getRandom } from '@/game/core/Random'
+import { generateTerrain } from './Terrain'
+import { GRID_SIZE } from '@/lib/constants'
+import { gridPositionToKey } from '@/lib/utils'
+
+const SEEDS = [1, 42, 1234, 0xdeadbeef]
+
+describe('generateTerrain', () => {
+  it('gives the same map for the same seed', () => {
+    expect(Array.from(generateTerrain(42))).toEqual(Array.from(generateTerrain(42)))
+    expect(Array.from(generateTerrain(42))).not.toEqual(Array.from(generateTerrain(43)))
+  })
+
+  it.each(SEEDS)('crosses seed %i with a river and raises hills', (seed) => {
+    const terrain = generateTerrain(seed)
+    const water = Array.from(terrain.values()).filter(t => t.type === 'water')
+    const hills = Array.from(terrain.values()).filter(t => (t.elevation ?? 0) > 0)
+
+    expect(water.length).toBeGreaterThanOrEqual(GRID_SIZE * 2)
+    expect(hills.length).toBeGreaterThan(0)
+    expect(hills.every(t => t.type === undefined)).toBe(true)
+  })
+
+  it.each(SEEDS)('leaves the middle of the map clear for seed %i', (seed) => {
+    const terrain = generateTerrain(seed)
+    for (let x = 0; x < 40; x++) {
+      for (let z = 0; z < 40; z++) {
+        expect(terrain.get(gridPositionToKey({ x, z }))).toBeUndefined()
+      }
+    }
+  })
+})
+
+describe('building on terrain', () => {
+  const city = () => useCityStore.getState()
+  const findTile = (match: (tile: TileData) => boolean): GridPosition => {
+    const tile = Array.from(city().tiles.values()).find(match)
+    if (!tile) throw new Error('No matching tile')
+    return tile.position
+  }
+
+  beforeEach(() => {
+    getRandom().setSeed(42)
+    city().reset()
+    city().updateBalance(1_000_000)
+  })
+
+  it('bridges the river and keeps everything else off the water', () => {
+    const river = findTile(tile => tile.type === 'water')
+
+    expect(city().planRoads([river], 'road').blocked).toEqual([river])
+    expect(city().planRoads([river], 'bridge').blocked).toEqual([])
+    expect(city().planZones([river], 'residential')).toEqual([])
+    expect(city().placeBuilding('power_plant', river, 0)).toBeNull()
+  })
+
+  it('tunnels through hills and keeps everything else off them', () => {
+    const hill = findTile(tile => tile.elevation > 0)
+
+    expect(city().planRoads([hill], 'road').blocked).toEqual([hill])
+    expect(city().planRoads([hill], 'tunnel').blocked).toEqual([])
+    expect(city().planZones([hill], 'residential')).toEqual([])
+    expect(city().placeBuilding('power_plant', hill, 0)).toBeNull()
+  })
+})
@@ -0,0 +1,69 @@
+import { TileData } from '@/types/game.types'
+import { Random } from '@/game/core/Random'
+import {
+  GRID_SIZE,
+  RIVER_BAND,
+  RIVER_WIDTH,
+  RIVER_MEANDER,
+  HILL_BAND,
+  HILL_COUNT,
+  HILL_RADIUS,
+  MAX_ELEVATION,
+} from '@/lib/constants'
+import { clamp, gridPositionToKey } from '@/lib/utils'
+
+/**
+ * Natural features of a new map, keyed by tile: a river crossing it from
+ * north to south and a few hills. The same seed always gives the same map
+ */
+export function generateTerrain(seed: number): Map<string, Partial<TileData>> {
+  const random = new Random(seed)
+  const terrain = new Map<string, Partial<TileData>>()
+
+  // River: wanders inside its band one row at a time
+  const riverMin = GRID_SIZE * RIVER_BAND.min
+  const riverMax = GRID_SIZE * RIVER_BAND.max
+  let center = random.range(riverMin, riverMax)
+  for (let z = 0; z < GRID_SIZE; z++) {
+    center = clamp(center + random.range(-RIVER_MEANDER, RIVER_MEANDER), riverMin, riverMax)
+    const width = random.int(RIVER_WIDTH.min, RIVER_WIDTH.max)
+    const start = Math.round(center - width / 2)
+    for (let x = start; x < start + width; x++) {
+      terrain.set(gridPositionToKey({ x, z }), { type: 'water' })
+    }
+  }
+
+  // Hills: round mounds west of the river, highest in the middle
+  const hills = random.int(HILL_COUNT.min, HILL_COUNT.max)
+  for (let i = 0; i < hills; i++) {
+    const radius = random.int(HILL_RADIUS.min, HILL_RADIUS.max)
+    const cx = Math.round(random.range(radius, riverMin - radius))
+    const cz = Math.round(random.range(GRID_SIZE * HILL_BAND.min, GRID_SIZE * HILL_BAND.max))
+    const peak = random.int(1, MAX_ELEVATION)
+
+    for (let x = cx - radius; x <= cx + radius; x++) {
+      for (let z = cz - radius; z <= cz + radius; z++) {
+        if (x < 0 || z < 0 || x >= GRID_SIZE || z >= GRID_SIZE) continue
+        const distance = Math.hypot(x - cx, z - cz)
+        if (distance > radius) continue
+
+        const key = gridPositionToKey({ x, z })
+        const existing = terrain.get(key)
+        if (existing?.type === 'water') continue
+
+        const elevation = Math.ceil(peak * (1 - distance / (radius + 1)))
+        terrain.set(key, { elevation: Math.max(existing?.elevation ?? 0, elevation) })
+      }
+    }
+  }
+
+  return terrain
+}
+
+/**
+ * Whether buildings and zones can go on a tile's ground
+ * Water only takes bridges and raised ground only takes tunnels
+ */
+export function isBuildable(tile: TileData): boolean {
+  return tile.type !== 'water' && tile.elevation <= 0
+}
@@ -12,9 +12,14 @@ export class Tile implements TileData {
   public buildingId: string | null
   public roadId: string | null
   public zone: ZoneType | null
+  public pipe: boolean
+  public fire: number
+  public garbage: number
   public elevation: number
   public landValue: number
   public pollution: number
+  public groundPollution: number
+  public noise: number
   public crime: number
   public traffic: number
 
@@ -26,9 +31,14 @@ export class Tile implements TileData {
     this.buildingId = data?.buildingId ?? null
     this.roadId = data?.roadId ?? null
     this.zone = data?.zone ?? null
+    this.pipe = data?.pipe ?? false
+    this.fire = data?.fire ?? 0
+    this.garbage = data?.garbage ?? 0
     this.elevation = data?.elevation ?? 0
     this.landValue = data?.landValue ?? 50
     this.pollution = data?.pollution ?? 0
+    this.groundPollution = data?.groundPollution ?? 0
+    this.noise = data?.noise ?? 0
     this.crime = data?.crime ?? 0
     this.traffic = data?.traffic ?? 0
   }
@@ -67,7 +77,7 @@ export class Tile implements TileData {
    * Check if tile can be developed (has zone, no building)
    */
   canDevelop(): boolean {
-    return this.isZoned() && !this.hasBuilding() && !this.hasRoad()
+    return this.isZoned() && !this.hasBuilding() && !this.hasRoad() && this.type !== 'rubble'
   }
 
   /**
@@ -78,9 +88,14 @@ export class Tile implements TileData {
     if (data.buildingId !== undefined) this.buildingId = data.buildingId
     if (data.roadId !== undefined) this.roadId = data.roadId
     if (data.zone !== undefined) this.zone = data.zone
+    if (data.pipe !== undefined) this.pipe = data.pipe
+    if (data.fire !== undefined) this.fire = data.fire
+    if (data.garbage !== undefined) this.garbage = data.garbage
     if (data.elevation !== undefined) this.elevation = data.elevation
     if (data.landValue !== undefined) this.landValue = data.landValue
     if (data.pollution !== undefined) this.pollution = data.pollution
+    if (data.groundPollution !== undefined) this.groundPollution = data.groundPollution
+    if (data.noise !== undefined) this.noise = data.noise
     if (data.crime !== undefined) this.crime = data.crime
     if (data.traffic !== undefined) this.traffic = data.traffic
   }
@@ -115,9 +130,14 @@ export class Tile implements TileData {
       buildingId: this.buildingId,
       roadId: this.roadId,
       zone: this.zone,
+      pipe: this.pipe,
+      fire: this.fire,
+      garbage: this.garbage,
       elevation: this.elevation,
       landValue: this.landValue,
       pollution: this.pollution,
+      groundPollution: this.groundPollution,
+      noise: this.noise,
       crime: this.crime,
       traffic: this.traffic,
     }
@@ -0,0 +1,253 @@
+import { GridPosition } from '@/types/game.types'
+import { Building } from '@/types/building.types'
+import { WaterServiceState, WaterShortage } from '@/types/simulation.types'
+import { useCityStore } from '@/stores/cityStore'
+import { SEWAGE_POLLUTION_FACTOR, SEWAGE_POLLUTION_RADIUS } from '@/lib/constants'
+import { getAdjacentTiles, getTilesInRadius, gridPositionToKey } from '@/lib/utils'
+
+export const EMPTY_WATER_STATE: WaterServiceState = {
+  production: 0,
+  consumption: 0,
+  surplus: 0,
+  coverage: 0,
+  buildings: [],
+  sewage: 0,
+  treatment: 0,
+  shortages: new Map(),
+  contamination: new Map(),
+}
+
+export interface WaterUpdate {
+  hasWater: Map<string, boolean> // building id -> supplied
+}
+
+interface Consumer {
+  building: Building
+  network: number
+  demand: number
+  distance: number
+}
+
+/**
+ * Underground pipe networks
+ * Buildings join a network through a pipe under or next to them. Powered
+ * pumps share their output across the network, served nearest first; the
+ * sewage of served buildings must be treated or it pollutes nearby water
+ */
+export class WaterNetwork {
+  private networkOf = new Map<string, number>()
+  private spare = new Map<number, number>()
+  private state: WaterServiceState = EMPTY_WATER_STATE
+
+  /**
+   * Recompute the networks from the city store
+   * Buildings must have their power status up to date, since pumps need power
+   */
+  update(): WaterUpdate {
+    const { tiles, buildings, getBuildingDefinition } = useCityStore.getState()
+    const hasWater = new Map<string, boolean>()
+    const contamination = new Map<string, number>()
+    const shortages = new Map<string, WaterShortage>()
+
+    this.networkOf.clear()
+    this.spare.clear()
+
+    // Label connected pipes
+    let networkCount = 0
+    tiles.forEach((tile, key) => {
+      if (!tile.pipe || this.networkOf.has(key)) return
+      const network = networkCount++
+      const stack = [key]
+      this.networkOf.set(key, network)
+      while (stack.length > 0) {
+        const current = stack.pop()!
+        getAdjacentTiles(tiles.get(current)!.position).forEach((position) => {
+          const next = gridPositionToKey(position)
+          if (this.networkOf.has(next) || !tiles.get(next)?.pipe) return
+          this.networkOf.set(next, network)
+          stack.push(next)
+        })
+      }
+    })
+
+    // Pipes under or beside a building's footprint connect it
+    const attachedPipes = new Map<string, string[]>()
+    tiles.forEach((tile) => {
+      if (!tile.buildingId) return
+      const pipes = attachedPipes.get(tile.buildingId) ?? []
+      const around = [tile.position, ...getAdjacentTiles(tile.position)]
+      around.forEach((position) => {
+        const pipeKey = gridPositionToKey(position)
+        if (this.networkOf.has(pipeKey) && !pipes.includes(pipeKey)) pipes.push(pipeKey)
+      })
+      attachedPipes.set(tile.buildingId, pipes)
+    })
+    const networkOfBuilding = (id: string) => {
+      const pipes = attachedPipes.get(id)
+      return pipes && pipes.length > 0 ? this.networkOf.get(pipes[0])! : undefined
+    }
+
+    // Working pumps seed the supply; distance is counted along the pipes
+    const pumps: Building[] = []
+    const distance = new Map<string, number>()
+    const queue: string[] = []
+    let production = 0
+    buildings.forEach((building) => {
+      const output = getBuildingDefinition(building.definitionId)?.effects.water ?? 0
+      const network = networkOfBuilding(building.id)
+      if (output <= 0 || !building.isActive || !building.isPowered || network === undefined) return
+
+      pumps.push(building)
+      production += output
+      this.spare.set(network, (this.spare.get(network) ?? 0) + output)
+      hasWater.set(building.id, true)
+      attachedPipes.get(building.id)!.forEach((key) => {
+        if (distance.has(key)) return
+        distance.set(key, 0)
+        queue.push(key)
+      })
+    })
+
+    for (let i = 0; i < queue.length; i++) {
+      const key = queue[i]
+      getAdjacentTiles(tiles.get(key)!.position).forEach((position) => {
+        const next = gridPositionToKey(position)
+        if (distance.has(next) || !this.networkOf.has(next)) return
+        distance.set(next, distance.get(key)! + 1)
+        queue.push(next)
+      })
+    }
+
+    // Treatment plants clean the sewage of their own network
+    const treatment = new Map<number, number>()
+    let treatmentTotal = 0
+    buildings.forEach((building) => {
+      const capacity = getBuildingDefinition(building.definitionId)?.sewageCapacity ?? 0
+      const network = networkOfBuilding(building.id)
+      if (capacity <= 0 || !building.isActive || !building.isPowered || network === undefined) return
+      treatment.set(network, (treatment.get(network) ?? 0) + capacity)
+      treatmentTotal += capacity
+    })
+
+    const consumers: Consumer[] = []
+    let consumerCount = 0
+    buildings.forEach((building) => {
+      if (hasWater.has(building.id)) return
+      const demand = Math.max(-(getBuildingDefinition(building.definitionId)?.effects.water ?? 0), 0)
+      // Parks and the like use no water, so they never go without
+      if (demand === 0) {
+        hasWater.set(building.id, true)
+        return
+      }
+      consumerCount++
+
+      const network = networkOfBuilding(building.id)
+      if (network === undefined) {
+        hasWater.set(building.id, false)
+        shortages.set(building.id, 'noPipe')
+        return
+      }
+
+      const pipeDistances = attachedPipes.get(building.id)!.map(key => distance.get(key) ?? Infinity)
+      consumers.push({ building, network, demand, distance: Math.min(...pipeDistances) })
+    })
+
+    // Serve nearest first; once a network runs dry, everything further away goes without
+    let consumption = 0
+    let servedCount = 0
+    const sewage = new Map<number, number>()
+    const served: Consumer[] = []
+    const exhausted = new Set<number>()
+    consumers
+      .sort((a, b) => a.distance - b.distance)
+      .forEach((consumer) => {
+        const { building, network, demand } = consumer
+        consumption += demand
+        const spare = this.spare.get(network) ?? 0
+
+        if (!this.spare.has(network)) {
+          hasWater.set(building.id, false)
+          shortages.set(building.id, 'noPump')
+          return
+        }
+        if (exhausted.has(network) || demand > spare) {
+          exhausted.add(network)
+          hasWater.set(building.id, false)
+          shortages.set(building.id, 'overloaded')
+          return
+        }
+
+        this.spare.set(network, spare - demand)
+        hasWater.set(building.id, true)
+        sewage.set(network, (sewage.get(network) ?? 0) + demand)
+        served.push(consumer)
+        servedCount++
+      })
+
+    // Untreated sewage spills into water near the buildings it comes from
+    served.forEach(({ building, network, demand }) => {
+      const total = sewage.get(network)!
+      const untreated = Math.max(total - (treatment.get(network) ?? 0), 0)
+      if (untreated === 0) return
+
+      const amount = (demand * untreated / total) * SEWAGE_POLLUTION_FACTOR
+      getTilesInRadius(building.position, SEWAGE_POLLUTION_RADIUS).forEach((position) => {
+        const key = gridPositionToKey(position)
+        if (tiles.get(key)?.type !== 'water') return
+        contamination.set(key, (contamination.get(key) ?? 0) + amount)
+      })
+    })
+
+    let sewageTotal = 0
+    sewage.forEach(amount => { sewageTotal += amount })
+
+    this.state = {
+      production,
+      consumption,
+      surplus: production - consumption,
+      coverage: consumerCount > 0 ? Math.round((servedCount / consumerCount) * 100) : 100,
+      buildings: pumps.map(p => p.id),
+      sewage: sewageTotal,
+      treatment: treatmentTotal,
+      shortages,
+      contamination,
+    }
+
+    return { hasWater }
+  }
+
+  /**
+   * Totals from the last update
+   */
+  getState(): WaterServiceState {
+    return this.state
+  }
+
+  /**
+   * Check whether a pipe tile belongs to a network with a working pump
+   */
+  isPressurized(position: GridPosition): boolean {
+    const network = this.networkOf.get(gridPositionToKey(position))
+    return network !== undefined && this.spare.has(network)
+  }
+
+  /**
+   * Check whether a lot could connect to a network with spare capacity
+   */
+  hasSupply(position: GridPosition): boolean {
+    return [position, ...getAdjacentTiles(position)].some((p) => {
+      const network = this.networkOf.get(gridPositionToKey(p))
+      return network !== undefined && (this.spare.get(network) ?? 0) > 0
+    })
+  }
+}
+
+// Singleton instance
+let waterNetworkInstance: WaterNetwork | null = null
+
+export function getWaterNetwork(): WaterNetwork {
+  if (!waterNetworkInstance) {
+    waterNetworkInstance = new WaterNetwork()
+  }
+  return waterNetworkInstance
+}
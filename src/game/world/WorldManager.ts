@@ -5,6 +5,7 @@ import { Building, BuildingDefinition } from '@/types/building.types'
 import { Road } from '@/types/simulation.types'
 import { generateId, gridPositionToKey, getTilesInRadius } from '@/lib/utils'
 import { GRID_SIZE } from '@/lib/constants'
+import { useGameStore } from '@/stores/gameStore'
 
 /**
  * World manager class
@@ -63,12 +64,15 @@ export class WorldManager {
       definitionId: definition.id,
       position,
       rotation,
-      level: 1,
+      level: definition.level ?? 1,
       occupancy: 0,
       condition: 100,
       isActive: true,
       isPowered: false,
       hasWater: false,
+      hasRoadAccess: false,
+      abandoned: false,
+      builtAt: useGameStore.getState().gameTime.totalMinutes,
       createdAt: Date.now(),
       lastUpdate: Date.now(),
     }
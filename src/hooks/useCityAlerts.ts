@@ -0,0 +1,19 @@
+'use client'
+
+import { useEffect } from 'react'
+import { EventBus } from '@/game/core/EventBus'
+import { useUIStore } from '@/stores/uiStore'
+import { NotificationData } from '@/types/game.types'
+
+/**
+ * Show the alerts the simulation raises as notifications
+ */
+export function useCityAlerts() {
+  const addNotification = useUIStore((state) => state.addNotification)
+
+  useEffect(() => {
+    return EventBus.subscribe<Omit<NotificationData, 'id' | 'duration'>>('city:alert', (event) => {
+      addNotification(event.payload)
+    })
+  }, [addNotification])
+}
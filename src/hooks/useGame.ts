@@ -4,11 +4,7 @@ import { useEffect, useCallback, useRef } from 'react'
 import { getGameEngine, GameEngine } from '@/game/core/GameEngine'
 import { getInputManager } from '@/game/core/InputManager'
 import { SimulationManager } from '@/game/simulation/SimulationManager'
-import { EconomySystem } from '@/game/simulation/EconomySystem'
-import { ZoningSystem } from '@/game/simulation/ZoningSystem'
-import { PopulationSystem } from '@/game/simulation/PopulationSystem'
-import { TrafficSystem } from '@/game/simulation/TrafficSystem'
-import { TimeSystem } from '@/game/simulation/TimeSystem'
+import { createDefaultSystems } from '@/game/simulation/SimulationRunner'
 import { useGameStore } from '@/stores/gameStore'
 import { useCityStore } from '@/stores/cityStore'
 
@@ -33,13 +29,9 @@ export function useGame() {
     engineRef.current = engine
 
     // Register simulation systems
+    // The same systems the headless runner steps
     const simManager = SimulationManager.getInstance()
-    
-    simManager.register(new TimeSystem())
-    simManager.register(new EconomySystem())
-    simManager.register(new ZoningSystem())
-    simManager.register(new PopulationSystem())
-    simManager.register(new TrafficSystem())
+    createDefaultSystems().forEach(system => simManager.register(system))
 
     // Register systems with engine
     simManager.getSystems = () => {
@@ -100,12 +92,11 @@ export function useGameControls() {
   const setGameSpeed = useGameStore((state) => state.setGameSpeed)
   const togglePause = useGameStore((state) => state.togglePause)
 
-  const save = useCityStore((state) => state.save)
   const reset = useCityStore((state) => state.reset)
 
   const handleSave = useCallback(() => {
-    save()
-  }, [save])
+    getGameEngine().saveGame()
+  }, [])
 
   const handleReset = useCallback(() => {
     reset()
@@ -6,6 +6,21 @@ export const GRID_SIZE = 64 // 64x64 tiles
 export const TILE_SIZE = 1 // 1 unit per tile in world space
 export const TILE_HEIGHT = 0.1 // Base tile height
 
+// ============================================
+// Terrain Constants
+// ============================================
+
+// A river runs north to south in this band of columns; hills rise in this band of rows.
+// Both stay clear of the rest of the map so every city starts with room to build
+export const RIVER_BAND = { min: 0.72, max: 0.84 } as const // Share of GRID_SIZE
+export const RIVER_WIDTH = { min: 2, max: 3 } as const // Tiles
+export const RIVER_MEANDER = 0.7 // Largest sideways step per row
+export const HILL_BAND = { min: 0.8, max: 0.92 } as const // Share of GRID_SIZE
+export const HILL_COUNT = { min: 2, max: 4 } as const
+export const HILL_RADIUS = { min: 2, max: 4 } as const // Tiles
+export const MAX_ELEVATION = 3
+export const ELEVATION_HEIGHT = 0.5 // World units per elevation level
+
 // ============================================
 // Camera Constants
 // ============================================
@@ -41,11 +56,16 @@ export const STARTING_BALANCE = 50000
 export const MIN_TAX_RATE = 0
 export const MAX_TAX_RATE = 20
 export const DEFAULT_TAX_RATE = 9
+export const DEFAULT_MAINTENANCE_FUNDING = 100 // Percent of standard upkeep
+export const MAX_MAINTENANCE_FUNDING = 150
 
 export const TAX_INCOME_PER_RESIDENT = 10
 export const TAX_INCOME_PER_WORKER = 15
 export const TAX_INCOME_PER_INDUSTRY = 20
 
+export const DEMOLISH_COST = 5 // Per cleared tile
+export const DEMOLISH_REFUND_RATE = 0.25 // Share of the build cost paid back
+
 // ============================================
 // Population Constants
 // ============================================
@@ -53,9 +73,13 @@ export const TAX_INCOME_PER_INDUSTRY = 20
 export const BASE_HAPPINESS = 50
 export const MAX_HAPPINESS = 100
 export const MIN_HAPPINESS = 0
+export const PARK_HAPPINESS = 3 // Per park in the city
+export const MAX_PARK_HAPPINESS = 15
+export const POLLUTION_HAPPINESS_PENALTY = 0.5 // Happiness lost per point of air pollution at home
 
 export const BASE_HEALTH = 70
 export const BASE_EDUCATION = 50
+export const UNSERVED_PENALTY = 30 // Health and education lost without coverage
 
 export const POPULATION_GROWTH_RATE = 0.01 // Per day
 export const MIGRATION_FACTOR = 0.5 // Based on happiness
@@ -73,6 +97,8 @@ export const ZONE_COLORS = {
 export const DEMAND_MIN = -100
 export const DEMAND_MAX = 100
 export const DEMAND_DECAY_RATE = 0.1
+export const BASE_LAND_VALUE = 50
+export const ROAD_ACCESS_DISTANCE = 3 // Max tiles from a lot to a connected road
 
 // ============================================
 // Traffic Constants
@@ -82,6 +108,7 @@ export const MAX_VEHICLES = 200
 export const VEHICLE_SPEED = 2 // Units per second
 export const VEHICLE_SPAWN_RATE = 0.1 // Per building per minute
 export const CONGESTION_THRESHOLD = 0.7
+export const ROAD_PATH_CACHE_SIZE = 500 // Cached shortest paths
 
 // ============================================
 // Service Constants
@@ -94,10 +121,129 @@ export const SERVICE_RADIUS = {
   education: 8,
   power: 20,
   water: 15,
+  waste: 20,
 } as const
 
 export const SERVICE_EFFICIENCY_DECAY = 0.1 // Per tile outside radius
 
+export const SERVICE_HAPPINESS = {
+  police: 5,
+  fire: 3,
+  health: 8,
+  education: 7,
+} as const // Bonus at full coverage
+
+export const PIPE_COST = 5 // Per tile
+export const PIPE_MAINTENANCE_COST = 0.2 // Per tile per day
+export const SEWAGE_POLLUTION_RADIUS = 6 // Water tiles reached by untreated sewage
+export const SEWAGE_POLLUTION_FACTOR = 2 // Pollution per unit of untreated sewage
+
+// ============================================
+// Crime Constants
+// ============================================
+
+export const CRIME_PER_RATE = 10 // Tile crime per point of building crimeRate
+export const CRIME_UNEMPLOYMENT = 20 // Crime on residential lots at full unemployment
+export const LOW_LAND_VALUE = 40 // Land value below which crime grows
+export const CRIME_PER_LAND_VALUE = 0.5 // Per point of land value below LOW_LAND_VALUE
+export const POLICE_CRIME_REDUCTION = 0.8 // Share of crime removed at full coverage
+export const CRIME_DIFFUSION = 0.4 // Share of the neighbors' average crime spreading per hour
+export const CRIME_LAND_VALUE_PENALTY = 0.3 // Land value lost per point of crime
+export const CRIME_HAPPINESS_PENALTY = 0.2 // Happiness lost per point of crime at home
+export const CRIME_DEMAND_PENALTY = 0.1 // Daily residential demand lost per point of crime
+export const ABANDONED_CRIME = 30 // Crime bred on the lot of an abandoned building
+export const DISTRICT_SIZE = 16 // Tiles per side of a district
+
+// ============================================
+// Fire Constants
+// ============================================
+
+export const FIRE_IGNITION_CHANCE = 0.000001 // Per point of fireRisk per game minute
+export const FIRE_AGE_DAYS = 30 // Ignition chance doubles every this many days of age
+export const FIRE_COVERAGE_REDUCTION = 0.7 // Share of ignitions prevented at full coverage
+export const FIRE_SPREAD_CHANCE = 0.004 // Per adjacent building per game minute
+export const FIRE_BURN_RATE = 100 / 180 // Burn progress per game minute
+export const FIRE_TRUCK_SPEED = 1 // Tiles per game minute
+export const FIRE_TRUCKS_PER_STATION = 2
+export const FIRE_EXTINGUISH_MINUTES = 20
+
+// ============================================
+// Waste Constants
+// ============================================
+
+export const GARBAGE_PER_PERSON = 0.05 // Garbage per resident or worker per game hour
+export const GARBAGE_MAX = 100 // Garbage a lot can pile up
+export const GARBAGE_PICKUP_THRESHOLD = 10 // Garbage on a lot before a truck comes for it
+export const GARBAGE_TRUCK_CAPACITY = 40
+export const GARBAGE_TRUCK_SPEED = 1 // Tiles per game minute
+export const GARBAGE_TRUCKS_PER_DEPOT = 3
+export const GARBAGE_STOCKPILE_LIMIT = 300 // Garbage depots hold before trucks stop going out
+export const GARBAGE_HAPPINESS_PENALTY = 0.15 // Happiness lost per point of garbage at home
+export const GARBAGE_HEALTH_PENALTY = 0.2 // Health lost per point of garbage at home
+export const GARBAGE_LAND_VALUE_PENALTY = 0.2 // Land value lost per point of garbage
+
+// ============================================
+// Pollution Constants
+// ============================================
+
+export const AIR_EMISSION = 0.5 // Air pollution per point of building pollution per hour
+export const GROUND_EMISSION = 0.1 // Ground pollution per point of industry or landfill pollution per hour
+export const NOISE_EMISSION = 0.5 // Noise per point of building pollution per hour
+export const TRAFFIC_AIR_EMISSION = 3 // Air pollution per lane at full traffic per hour
+export const TRAFFIC_NOISE_EMISSION = 15 // Noise per lane at full traffic per hour
+export const GARBAGE_GROUND_EMISSION = 0.02 // Ground pollution per point of garbage per hour
+export const POLLUTION_DIFFUSION = { air: 0.3, ground: 0.05, noise: 0.5 } as const // Share of the gap to the neighbors closed per hour
+export const POLLUTION_DECAY = { air: 0.05, ground: 0.01, noise: 0.6 } as const // Share lost per hour
+export const WIND_STRENGTH = 0.3 // Share of the upwind air carried along per hour
+export const WIND_CHANGE_CHANCE = 0.05 // Per game hour
+export const PARK_ABSORPTION = 0.3 // Share of every layer a park tile soaks up per hour
+export const POLLUTION_LAND_VALUE_PENALTY = { air: 0.3, ground: 0.3, noise: 0.2 } as const // Per point of pollution
+export const POLLUTION_HEALTH_PENALTY = 0.15 // Health lost per point of air and ground pollution at home
+export const POLLUTION_DESIRABILITY = { air: 1, ground: 0.5, noise: 0.8 } as const // Residential appeal lost per point, in percent
+
+// ============================================
+// Land Value Constants
+// ============================================
+
+export const LAND_VALUE_RADIUS = 5 // Reach of a building's landValue effect
+export const PARK_LAND_VALUE_RADIUS = 8 // Parks are enjoyed from further away
+export const SERVICE_LAND_VALUE = {
+  police: 5,
+  fire: 3,
+  health: 6,
+  education: 6,
+} as const // Bonus at full coverage
+export const WATERFRONT_LAND_VALUE = 10 // Bonus next to water
+export const WATERFRONT_DISTANCE = 3 // Tiles over which the waterfront bonus fades
+export const NO_ROAD_LAND_VALUE_PENALTY = 10 // Lost by lots that cannot reach the road network
+export const LAND_VALUE_SMOOTHING = 0.25 // Share of the gap to the new value closed per update
+export const ABANDONED_LAND_VALUE = -15 // landValue effect of an abandoned building, replacing its own
+
+// ============================================
+// Development Constants
+// ============================================
+
+export const LEVEL_THRESHOLDS: Record<number, { services: number; education: number; demand: number }> = {
+  2: { services: 20, education: 30, demand: 0 },
+  3: { services: 40, education: 50, demand: 10 },
+  4: { services: 60, education: 65, demand: 20 },
+} // Service coverage %, city education and zone demand a tier needs; land value comes from its requirements
+export const LEVEL_DOWN_MARGIN = 10 // How far below its own tier's needs a building may fall
+export const LEVEL_UP_CHANCE = 0.2 // Daily, once a building qualifies for the next tier
+export const LEVEL_DOWN_CHANCE = 0.1 // Daily, while a building falls short of its tier
+export const ABANDON_LAND_VALUE = 20 // Land value below which lowest-tier buildings empty out
+export const ABANDON_DEMAND = -50 // Zone demand below which lowest-tier buildings empty out
+export const ABANDON_CHANCE = 0.05 // Daily, while a building is wrecked, empty or without prospects
+export const ABANDON_GRACE_DAYS = 7 // New buildings get this long to fill up before they can be abandoned
+export const LEVEL_UP_CONDITION = 50 // Buildings in worse repair do not grow
+export const REDEVELOP_DEMAND = 10 // Zone demand that brings builders back to abandoned lots
+export const REDEVELOP_CHANCE = 0.1 // Daily, once an abandoned lot's conditions improve
+export const CONDITION_DECAY = 0.5 // Daily wear on every zoned building
+export const CONDITION_AGE_DECAY = 0.01 // Extra daily wear per day of age
+export const CONDITION_MAX_AGE_DECAY = 1 // Cap on the extra wear from age
+export const CONDITION_UTILITY_DECAY = { power: 3, water: 3, road: 2 } as const // Daily wear while cut off from each
+export const CONDITION_REPAIR = 1.5 // Daily repair at standard maintenance funding
+
 // ============================================
 // Day/Night Constants
 // ============================================
@@ -125,6 +271,7 @@ export const MINIMAP_SIZE = 200
 export const TOOLTIP_DELAY = 500
 export const NOTIFICATION_DURATION = 5000
 export const AUTOSAVE_INTERVAL = 60000 // 1 minute
+export const UNDO_HISTORY_LIMIT = 100 // Undo steps kept
 
 // ============================================
 // Input Key Mappings
@@ -158,6 +305,8 @@ export const KEY_BINDINGS = {
   load: ['F2'],
   toggle_grid: ['g'],
   toggle_overlay: ['o'],
+  undo: ['Ctrl+z'],
+  redo: ['Ctrl+y', 'Ctrl+Shift+z'],
 } as const
 
 // ============================================
@@ -165,11 +314,28 @@ export const KEY_BINDINGS = {
 // ============================================
 
 export const STORAGE_KEYS = {
-  SAVE_DATA: 'mycity_save',
+  CITY_STATE: 'mycity_city',
+  SAVE_INDEX: 'mycity_saves',
+  SAVE_SLOT_PREFIX: 'mycity_save_',
+  LEGACY_SAVE: 'mycity_save',
   SETTINGS: 'mycity_settings',
   LANGUAGE: 'mycity_language',
 } as const
 
+export const STORAGE_DB_NAME = 'mycity'
+export const STORAGE_DB_STORE = 'storage'
+export const PERSIST_DEBOUNCE = 1000 // ms between city state writes
+
+// ============================================
+// Save Slots
+// ============================================
+
+export const QUICKSAVE_SLOT_ID = 'quicksave'
+export const SAVE_THUMBNAIL_SIZE = 96
+export const CITY_FILE_EXTENSION = '.mycity'
+export const AUTOSAVE_SLOT_PREFIX = 'autosave-'
+export const AUTOSAVE_SLOT_COUNT = 3
+
 // ============================================
 // Model Paths
 // ============================================
@@ -186,4 +352,4 @@ export const MODEL_PATHS = {
 // ============================================
 
 export const GAME_VERSION = '0.1.0'
-export const SAVE_VERSION = '1'
+export const SAVE_VERSION = '10'
@@ -1,6 +1,7 @@
 import { GridPosition, WorldPosition } from '@/types/game.types'
-import { GRID_SIZE, TILE_SIZE } from './constants'
+import { DISTRICT_SIZE, GRID_SIZE, TILE_SIZE } from './constants'
 import { v4 as uuidv4 } from 'uuid'
+import { getRandom } from '@/game/core/Random'
 
 // ============================================
 // ID Generation
@@ -10,6 +11,11 @@ export function generateId(): string {
   return uuidv4()
 }
 
+// Deterministic id for simulation entities (buildings, roads, vehicles)
+export function generateEntityId(): string {
+  return getRandom().uuid()
+}
+
 export function generateShortId(): string {
   return Math.random().toString(36).substring(2, 9)
 }
@@ -51,6 +57,13 @@ export function keyToGridPosition(key: string): GridPosition {
   return { x, z }
 }
 
+export function getDistrict(position: GridPosition): { id: string; name: string } {
+  const row = Math.floor(position.z / DISTRICT_SIZE)
+  const column = Math.floor(position.x / DISTRICT_SIZE)
+  const id = `${String.fromCharCode(65 + row)}${column + 1}`
+  return { id, name: `Bölge ${id}` }
+}
+
 export function getAdjacentTiles(position: GridPosition): GridPosition[] {
   const directions = [
     { x: 0, z: -1 }, // north
@@ -101,6 +114,32 @@ export function getTilesInRect(
   return tiles
 }
 
+// Every tile in the rectangle spanned by two corner tiles
+export function getTilesBetween(a: GridPosition, b: GridPosition): GridPosition[] {
+  return getTilesInRect(
+    { x: Math.min(a.x, b.x), z: Math.min(a.z, b.z) },
+    Math.abs(a.x - b.x) + 1,
+    Math.abs(a.z - b.z) + 1
+  )
+}
+
+// Straight line, or an L that runs along x first and then along z
+export function getRoadPath(start: GridPosition, end: GridPosition): GridPosition[] {
+  const path: GridPosition[] = []
+  const stepX = Math.sign(end.x - start.x)
+  const stepZ = Math.sign(end.z - start.z)
+  
+  for (let x = start.x; x !== end.x; x += stepX) {
+    path.push({ x, z: start.z })
+  }
+  for (let z = start.z; z !== end.z; z += stepZ) {
+    path.push({ x: end.x, z })
+  }
+  path.push({ x: end.x, z: end.z })
+  
+  return path
+}
+
 export function manhattanDistance(a: GridPosition, b: GridPosition): number {
   return Math.abs(a.x - b.x) + Math.abs(a.z - b.z)
 }
@@ -132,16 +171,25 @@ export function smoothstep(edge0: number, edge1: number, x: number): number {
   return t * t * (3 - 2 * t)
 }
 
+// Random helpers draw from the seeded simulation RNG (see game/core/Random)
 export function randomRange(min: number, max: number): number {
-  return min + Math.random() * (max - min)
+  return getRandom().range(min, max)
 }
 
 export function randomInt(min: number, max: number): number {
-  return Math.floor(randomRange(min, max + 1))
+  return getRandom().int(min, max)
 }
 
 export function randomElement<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)]
+  return getRandom().element(array)
+}
+
+export function randomChance(probability: number): boolean {
+  return getRandom().chance(probability)
+}
+
+export function shuffle<T>(array: T[]): T[] {
+  return getRandom().shuffle(array)
 }
 
 // ============================================
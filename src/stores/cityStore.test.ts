@@ -0,0 +1,219 @@
+import { readFileSync } from 'node:fs'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { mergePersistedCity, migratePersistedCity, useCityStore } from './cityStore'
+import { useGameStore } from './gameStore'
+import { useUIStore } from './uiStore'
+import { SaveDataError } from '@/game/save/SaveMigrations'
+import { SimulationManager } from '@/game/simulation/SimulationManager'
+import { SimulationRunner, createDefaultSystems } from '@/game/simulation/SimulationRunner'
+import { createFixtureSave } from '@/test/fixtures'
+import { PERSIST_DEBOUNCE, SAVE_VERSION, STORAGE_KEYS } from '@/lib/constants'
+import { gridPositionToKey } from '@/lib/utils'
+
+type RawSave = {
+  cityName: string
+  tiles: { position: { x: number; z: number } }[]
+  buildings: { id: string; type: string }[]
+  roads: { id: string }[]
+  economy: unknown
+  population: unknown
+}
+
+// A city as the store persisted it before persisting was versioned
+function readPersistedV1City() {
+  const file = new URL('../game/save/__fixtures__/v1.json', import.meta.url)
+  const save: RawSave = JSON.parse(readFileSync(file, 'utf8'))
+
+  return {
+    cityName: save.cityName,
+    tiles: new Map(save.tiles.map(t => [gridPositionToKey(t.position), t])),
+    buildings: new Map(save.buildings.map(({ type, ...b }) => [b.id, { ...b, definitionId: type }])),
+    roads: new Map(save.roads.map(r => [r.id, r])),
+    economy: save.economy,
+    population: save.population,
+    zoneDemand: { residential: 50, commercial: 30, industrial: 20 },
+  }
+}
+
+describe('persisted city', () => {
+  it('is versioned with the save format', () => {
+    expect(useCityStore.persist.getOptions().version).toBe(Number(SAVE_VERSION))
+  })
+
+  it('upgrades an unversioned city through the save migrations', () => {
+    const city = migratePersistedCity(readPersistedV1City(), 0)
+    const building = city.buildings.get('8fda1939-fc0c-43ab-ad7a-00db0c794a63')
+
+    expect(building).toMatchObject({
+      definitionId: 'building_small_a',
+      condition: 100,
+      hasRoadAccess: true,
+      builtAt: 0,
+      abandoned: false,
+    })
+    expect(city.tiles.get('15,11')).toMatchObject({ pipe: true, fire: 0, garbage: 0, groundPollution: 0, noise: 0 })
+    expect(city.economy.maintenanceFunding).toBe(100)
+    city.roads.forEach(road => expect(road.connections.length).toBeGreaterThan(0))
+  })
+
+  it('rejects a city that cannot be upgraded', () => {
+    const city = readPersistedV1City()
+    city.cityName = undefined as unknown as string
+
+    expect(() => migratePersistedCity(city, 0)).toThrow(SaveDataError)
+  })
+
+  it('keeps the game clock with the city', () => {
+    const gameTime = { ...useGameStore.getState().gameTime, day: 12, totalMinutes: 11 * 24 * 60 + 300 }
+    useGameStore.getState().setGameTime(gameTime)
+    const persisted = useCityStore.persist.getOptions().partialize!(useCityStore.getState())
+    expect(persisted).toMatchObject({ gameTime })
+
+    useGameStore.getState().reset()
+    const restored = mergePersistedCity(persisted, useCityStore.getState())
+
+    expect(useGameStore.getState().gameTime).toEqual(gameTime)
+    expect(restored).not.toHaveProperty('gameTime')
+    expect(migratePersistedCity(persisted, 0).gameTime).toEqual(gameTime)
+    useGameStore.getState().reset()
+  })
+
+  it.each([
+    ['cannot be migrated', JSON.stringify({ state: { tilesArray: [], buildingsArray: [], roadsArray: [] }, version: 3 })],
+    ['is not valid JSON', '{"state":'],
+  ])('is left untouched when it %s', async (_reason, stored) => {
+    const items = new Map<string, string>([[STORAGE_KEYS.CITY_STATE, stored]])
+    vi.stubGlobal('window', {})
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    })
+    vi.useFakeTimers()
+    useUIStore.setState({ notifications: [] })
+
+    try {
+      await useCityStore.persist.rehydrate()
+      // What GridInitializer does when no city was restored
+      useCityStore.getState().initializeGrid()
+      vi.advanceTimersByTime(PERSIST_DEBOUNCE * 2)
+
+      expect(items.get(STORAGE_KEYS.CITY_STATE)).toBe(stored)
+      expect(useUIStore.getState().notifications).toMatchObject([{ type: 'error' }])
+    } finally {
+      vi.useRealTimers()
+      vi.unstubAllGlobals()
+    }
+  })
+})
+
+describe('save and load', () => {
+  const manager = SimulationManager.getInstance()
+  const systems = createDefaultSystems()
+  let played: ReturnType<typeof createFixtureSave>
+
+  const freshSystemState = () =>
+    Object.fromEntries(createDefaultSystems().map(system => [system.name, system.serialize()]))
+
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    systems.forEach(system => manager.register(system))
+
+    // A city a day into play, with traffic and system state to keep
+    played = new SimulationRunner().run(createFixtureSave(), 36 * 60, 7).snapshot
+    played.economy.history = [{ day: 1, income: 120, expenses: 80, balance: played.economy.balance }]
+  })
+
+  afterAll(() => {
+    systems.forEach(system => manager.unregister(system.name))
+    vi.useRealTimers()
+  })
+
+  it('reproduces the same city', () => {
+    useCityStore.getState().load(played)
+    const saved = useCityStore.getState().snapshot()
+
+    useCityStore.getState().load(saved)
+
+    expect(useCityStore.getState().snapshot()).toEqual(saved)
+    expect(saved).toEqual(played)
+  })
+
+  it('keeps roads, buildings, demand, history, time and systems', () => {
+    useCityStore.getState().load(played)
+    const saved = useCityStore.getState().snapshot()
+
+    expect(saved.roads.some(r => r.type === 'avenue')).toBe(true)
+    expect(saved.roads.every(r => r.connections.length > 0)).toBe(true)
+    expect(saved.buildings.some(b => b.occupancy > 0)).toBe(true)
+    expect(saved.buildings.some(b => b.isPowered && b.hasWater)).toBe(true)
+    expect(saved.economy.history).toEqual(played.economy.history)
+    expect(saved.zoneDemand).toEqual(played.zoneDemand)
+    expect(saved.gameTime).toEqual(useGameStore.getState().gameTime)
+    expect(saved.gameTime.totalMinutes).toBe(36 * 60)
+    expect(Object.keys(saved.systems).sort()).toEqual(systems.map(s => s.name).sort())
+  })
+
+  it('resets systems the save has no state for', () => {
+    useCityStore.getState().load(played)
+    const loaded = manager.serialize()
+
+    useCityStore.getState().load({ ...played, systems: {} })
+
+    expect(loaded).not.toEqual(freshSystemState())
+    expect(manager.serialize()).toEqual(freshSystemState())
+  })
+
+  it('keeps system state in the persisted city', () => {
+    useCityStore.getState().load(played)
+    const { systems, ...persisted } = useCityStore.persist.getOptions().partialize!(useCityStore.getState())
+    // As written to storage, away from the live system state
+    const stored = JSON.parse(JSON.stringify(systems))
+
+    useCityStore.getState().reset()
+    mergePersistedCity({ ...persisted, systems: stored }, useCityStore.getState())
+
+    expect(stored).toEqual(played.systems)
+    expect(manager.serialize()).toEqual(played.systems)
+  })
+
+  it('hands persisted state to systems registered after the city is restored', () => {
+    useCityStore.getState().load(played)
+    const persisted = useCityStore.persist.getOptions().partialize!(useCityStore.getState())
+    const stored = JSON.parse(JSON.stringify(persisted.systems))
+    const waste = manager.get('waste')!
+
+    manager.unregister('waste')
+    waste.reset()
+    mergePersistedCity({ ...persisted, systems: stored }, useCityStore.getState())
+    manager.register(waste)
+
+    expect(waste.serialize()).toEqual(played.systems.waste)
+  })
+
+  it('resets systems for a new city', () => {
+    useCityStore.getState().load(played)
+
+    useCityStore.getState().reset()
+
+    expect(manager.serialize()).toEqual(freshSystemState())
+  })
+})
+
+describe('updateBuildings', () => {
+  it('replaces the changed buildings in a new map', () => {
+    const save = createFixtureSave()
+    useCityStore.getState().load(save)
+    const before = useCityStore.getState().buildings
+    const [id, building] = Array.from(before.entries())[0]
+
+    useCityStore.getState().updateBuildings(new Map([[id, { condition: 40 }], ['missing', { condition: 10 }]]))
+    const after = useCityStore.getState().buildings
+
+    expect(after).not.toBe(before)
+    expect(before.get(id)).toBe(building)
+    expect(after.get(id)).toEqual({ ...building, condition: 40 })
+    expect(after.has('missing')).toBe(false)
+  })
+})
@@ -1,22 +1,63 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { persist, StorageValue } from 'zustand/middleware'
 import {
   TileData,
   GridPosition,
   ZoneType,
   SaveData,
+  GameTime,
+  BulldozePlan,
+  PipePlan,
 } from '@/types/game.types'
 import { Building, BuildingDefinition, DEFAULT_BUILDINGS } from '@/types/building.types'
-import { Road, EconomyState, PopulationState, ZoneDemand, Direction, RoadConnection } from '@/types/simulation.types'
+import {
+  Road,
+  RoadPlan,
+  RoadType,
+  ROAD_CLASSES,
+  EconomyState,
+  PopulationState,
+  PowerServiceState,
+  WaterServiceState,
+  CoverageServices,
+  CrimeState,
+  WasteState,
+  PollutionState,
+  ZoneDemand,
+  Direction,
+} from '@/types/simulation.types'
 import {
   GRID_SIZE,
   STORAGE_KEYS,
   STARTING_BALANCE,
   DEFAULT_TAX_RATE,
-  GAME_VERSION,
+  DEFAULT_MAINTENANCE_FUNDING,
   SAVE_VERSION,
+  PERSIST_DEBOUNCE,
+  DEMOLISH_COST,
+  DEMOLISH_REFUND_RATE,
+  PIPE_COST,
+  BASE_LAND_VALUE,
 } from '@/lib/constants'
-import { generateId, gridPositionToKey, keyToGridPosition } from '@/lib/utils'
+import { generateEntityId, gridPositionToKey, randomChance, shuffle } from '@/lib/utils'
+import { getRandom } from '@/game/core/Random'
+import { getCommandHistory } from '@/game/core/CommandHistory'
+import { GameEvents } from '@/game/core/EventBus'
+import { migrateSaveData } from '@/game/save/SaveMigrations'
+import { getSaveSlotManager } from '@/game/save/SaveSlotManager'
+import { getStorage } from '@/game/save/StorageBackend'
+import { SimulationManager } from '@/game/simulation/SimulationManager'
+import { EMPTY_COVERAGE } from '@/game/simulation/ServicesSystem'
+import { EMPTY_CRIME_STATE } from '@/game/simulation/CrimeSystem'
+import { EMPTY_WASTE_STATE } from '@/game/simulation/WasteSystem'
+import { EMPTY_POLLUTION_STATE, getResidentialDesirability } from '@/game/simulation/PollutionSystem'
+import { pickBuildingForLand } from '@/game/simulation/LandValueSystem'
+import { getPowerGrid, EMPTY_POWER_STATE } from '@/game/world/PowerGrid'
+import { getRoadNetwork } from '@/game/world/RoadNetwork'
+import { getWaterNetwork, EMPTY_WATER_STATE } from '@/game/world/WaterNetwork'
+import { generateTerrain, isBuildable } from '@/game/world/Terrain'
+import { useGameStore } from '@/stores/gameStore'
+import { useUIStore } from '@/stores/uiStore'
 
 interface CityStore {
   // City Info
@@ -41,6 +82,14 @@ interface CityStore {
   // Zone Demand
   zoneDemand: ZoneDemand
   
+  // Services (derived by the utility networks and ServicesSystem, not saved)
+  power: PowerServiceState
+  water: WaterServiceState
+  services: CoverageServices
+  crime: CrimeState
+  waste: WasteState
+  pollution: PollutionState
+  
   // Actions - Simulation
   calculateUtilities: () => void
   growZones: () => void
@@ -50,33 +99,61 @@ interface CityStore {
   // Actions - Tiles
   getTile: (position: GridPosition) => TileData | undefined
   setTile: (position: GridPosition, data: Partial<TileData>) => void
+  updateTiles: (updates: Map<string, Partial<TileData>>) => void
   initializeGrid: () => void
   
   // Actions - Buildings
   placeBuilding: (definitionId: string, position: GridPosition, rotation: number) => Building | null
   removeBuilding: (buildingId: string) => void
+  burnDown: (buildingId: string) => void
+  replaceBuilding: (buildingId: string, definitionId: string) => void
+  setAbandoned: (buildingId: string, abandoned: boolean) => void
+  updateBuildings: (updates: Map<string, Partial<Building>>) => void
   getBuildingAt: (position: GridPosition) => Building | undefined
   getBuildingDefinition: (definitionId: string) => BuildingDefinition | undefined
   
   // Actions - Roads
-  placeRoad: (position: GridPosition) => Road | null
+  placeRoad: (position: GridPosition, type?: RoadType) => Road | null
+  planRoads: (path: GridPosition[], type?: RoadType) => RoadPlan
+  placeRoads: (path: GridPosition[], type?: RoadType) => Road[] | null
   removeRoad: (roadId: string) => void
   getRoadAt: (position: GridPosition) => Road | undefined
   
+  // Actions - Pipes
+  planPipes: (path: GridPosition[]) => PipePlan
+  placePipes: (path: GridPosition[]) => GridPosition[] | null
+  removePipes: (path: GridPosition[]) => number
+  
+  // Actions - Demolition
+  planBulldoze: (positions: GridPosition[]) => BulldozePlan
+  bulldoze: (positions: GridPosition[]) => BulldozePlan | null
+  
   // Actions - Zones
   setZone: (position: GridPosition, zone: ZoneType | null) => void
+  planZones: (positions: GridPosition[], zone: ZoneType | null) => GridPosition[]
+  setZones: (positions: GridPosition[], zone: ZoneType | null) => number
   getZoneAt: (position: GridPosition) => ZoneType | null
   
   // Actions - Economy
   updateBalance: (amount: number) => void
   setTaxRate: (zone: ZoneType, rate: number) => void
+  setMaintenanceFunding: (funding: number) => void
   
   // Actions - Population
   updatePopulation: (delta: number) => void
   updatePopulationState: (updates: Partial<PopulationState>) => void
   
+  // Actions - Zone Demand
+  updateZoneDemand: (updates: Partial<ZoneDemand>) => void
+  
+  // Actions - Services
+  updateServices: (services: CoverageServices) => void
+  updateCrime: (crime: CrimeState) => void
+  updateWaste: (waste: WasteState) => void
+  updatePollution: (pollution: PollutionState) => void
+  
   // Actions - Save/Load
-  save: () => SaveData
+  snapshot: () => SaveData
   load: (data: SaveData) => void
   reset: () => void
   
@@ -93,13 +170,33 @@ const createInitialTile = (x: number, z: number): TileData => ({
   buildingId: null,
   roadId: null,
   zone: null,
+  pipe: false,
+  fire: 0,
+  garbage: 0,
   elevation: 0,
-  landValue: 50,
+  landValue: BASE_LAND_VALUE,
   pollution: 0,
+  groundPollution: 0,
+  noise: 0,
   crime: 0,
   traffic: 0,
 })
 
+/**
+ * Full grid for a new city, with the terrain of the current seed
+ */
+const createGrid = (): Map<string, TileData> => {
+  const terrain = generateTerrain(getRandom().getSeed())
+  const tiles = new Map<string, TileData>()
+  for (let x = 0; x < GRID_SIZE; x++) {
+    for (let z = 0; z < GRID_SIZE; z++) {
+      const key = gridPositionToKey({ x, z })
+      tiles.set(key, { ...createInitialTile(x, z), ...terrain.get(key) })
+    }
+  }
+  return tiles
+}
+
 const initialEconomy: EconomyState = {
   balance: STARTING_BALANCE,
   income: 0,
@@ -126,6 +223,7 @@ const initialEconomy: EconomyState = {
     total: 0,
   },
   maintenanceExpenses: 0,
+  maintenanceFunding: DEFAULT_MAINTENANCE_FUNDING,
   history: [],
 }
 
@@ -156,16 +254,156 @@ const initialZoneDemand: ZoneDemand = {
   industrial: 20,
 }
 
-// Clear old localStorage on load to prevent hydration errors
-if (typeof window !== 'undefined') {
-  const storageVersion = localStorage.getItem('mycity_version')
-  if (storageVersion !== '2') {
-    localStorage.removeItem('mycity_save')
-    localStorage.removeItem('mycity_settings')
-    localStorage.setItem('mycity_version', '2')
+type CityState = Pick<
+  CityStore,
+  'cityName' | 'economy' | 'population' | 'zoneDemand' | 'tiles' | 'buildings' | 'roads'
+>
+
+// The game clock and the simulation systems are kept with the city: building
+// ages are measured against the clock, and landfills, trucks and wind live in the systems
+type PersistedCity = CityState & { gameTime: GameTime; systems: SaveData['systems'] }
+
+// Latest persisted state waiting to be written; serialized once writes settle
+let pendingPersist: { name: string; value: StorageValue<PersistedCity> } | null = null
+let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+// Set when the stored city could not be restored, so the placeholder city
+// doesn't overwrite it. Lifted once the player loads or starts a city
+let persistBlocked = false
+
+function schedulePersist(name: string, value: StorageValue<PersistedCity>): void {
+  if (persistBlocked) return
+  pendingPersist = { name, value }
+  if (persistTimer) clearTimeout(persistTimer)
+  persistTimer = setTimeout(flushPersist, PERSIST_DEBOUNCE)
+}
+
+function cancelPersist(): void {
+  if (persistTimer) clearTimeout(persistTimer)
+  persistTimer = null
+  pendingPersist = null
+}
+
+function flushPersist(): void {
+  if (!pendingPersist) return
+  const { name, value } = pendingPersist
+  cancelPersist()
+
+  const { tiles, buildings, roads, ...rest } = value.state
+  const data = JSON.stringify({
+    ...value,
+    state: {
+      ...rest,
+      // Convert Maps to arrays for JSON serialization
+      tilesArray: Array.from(tiles.entries()),
+      buildingsArray: Array.from(buildings.entries()),
+      roadsArray: Array.from(roads.entries()),
+    },
+  })
+
+  getStorage().setItem(name, data).catch(error => {
+    console.error('[cityStore] Failed to persist city:', error)
+  })
+}
+
+/**
+ * City state held in the store for validated save data
+ */
+function fromSaveData(data: SaveData): CityState {
+  const tiles = new Map<string, TileData>()
+  data.tiles.forEach(tile => {
+    tiles.set(gridPositionToKey(tile.position), { ...tile })
+  })
+
+  const buildings = new Map<string, Building>()
+  data.buildings.forEach(({ type, ...b }) => {
+    buildings.set(b.id, { ...b, definitionId: type })
+  })
+
+  const roads = new Map<string, Road>()
+  data.roads.forEach(r => {
+    roads.set(r.id, {
+      ...r,
+      connections: r.connections.map(c => ({ ...c })),
+    })
+  })
+
+  return {
+    cityName: data.cityName,
+    tiles,
+    buildings,
+    roads,
+    economy: {
+      ...data.economy,
+      taxRates: { ...data.economy.taxRates },
+      taxIncome: { ...data.economy.taxIncome },
+      serviceExpenses: { ...data.economy.serviceExpenses },
+      history: data.economy.history.map(h => ({ ...h })),
+    },
+    population: {
+      ...data.population,
+      demographics: { ...data.population.demographics },
+    },
+    zoneDemand: { ...data.zoneDemand },
   }
 }
 
+/**
+ * Upgrade a city persisted by an older version through the save migrations
+ * The persist version follows SAVE_VERSION; cities persisted before it was
+ * versioned (version 0) are in the first save format
+ */
+export function migratePersistedCity(persisted: unknown, version: number): PersistedCity {
+  // Cities persisted before the clock was kept with them take the current one
+  const {
+    tiles,
+    buildings,
+    roads,
+    gameTime = useGameStore.getState().gameTime,
+    systems = {},
+    ...city
+  } = persisted as PersistedCity
+
+  // Throws SaveDataError when the city cannot be upgraded
+  const data = migrateSaveData({
+    ...city,
+    version: version > 0 ? String(version) : '1',
+    timestamp: Date.now(),
+    gameTime,
+    tiles: Array.from(tiles.values()),
+    buildings: Array.from(buildings.values()).map(({ definitionId, ...b }) => ({ ...b, type: definitionId })),
+    roads: Array.from(roads.values()),
+    rng: getRandom().serialize(),
+    systems,
+  })
+
+  return { ...fromSaveData(data), gameTime: data.gameTime, systems: data.systems }
+}
+
+/**
+ * Restore a persisted city into the store, handing its clock to the game store
+ * and its system state to the simulation, as loading a save does
+ */
+export function mergePersistedCity(persisted: unknown, current: CityStore): CityStore {
+  if (!persisted) return current
+  const { gameTime, systems, ...city } = persisted as Partial<PersistedCity>
+  if (gameTime) useGameStore.getState().setGameTime(gameTime)
+  SimulationManager.getInstance().reset()
+  SimulationManager.getInstance().deserialize(systems ?? {})
+  return { ...current, ...city }
+}
+
+if (typeof window !== 'undefined') {
+  // Split the old shared save key before the persisted city is hydrated
+  getSaveSlotManager().importLegacySave()
+
+  // Don't lose the last debounced write when the tab goes away
+  window.addEventListener('pagehide', flushPersist)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushPersist()
+  })
+}
+
 export const useCityStore = create<CityStore>()(
   persist(
     (set, get) => ({
@@ -178,6 +416,12 @@ export const useCityStore = create<CityStore>()(
       economy: initialEconomy,
       population: initialPopulation,
       zoneDemand: initialZoneDemand,
+      power: EMPTY_POWER_STATE,
+      water: EMPTY_WATER_STATE,
+      services: EMPTY_COVERAGE,
+      crime: EMPTY_CRIME_STATE,
+      waste: EMPTY_WASTE_STATE,
+      pollution: EMPTY_POLLUTION_STATE,
       
       // Tile Actions
       getTile: (position) => {
@@ -193,17 +437,20 @@ export const useCityStore = create<CityStore>()(
         set({ tiles })
       },
       
-      initializeGrid: () => {
-        const tiles = new Map<string, TileData>()
-        for (let x = 0; x < GRID_SIZE; x++) {
-          for (let z = 0; z < GRID_SIZE; z++) {
-            const key = gridPositionToKey({ x, z })
-            tiles.set(key, createInitialTile(x, z))
-          }
-        }
+      updateTiles: (updates) => {
+        if (updates.size === 0) return
+        const tiles = new Map(get().tiles)
+        updates.forEach((data, key) => {
+          const tile = tiles.get(key)
+          if (tile) tiles.set(key, { ...tile, ...data })
+        })
         set({ tiles })
       },
       
+      initializeGrid: () => {
+        set({ tiles: createGrid() })
+      },
+      
       // Building Actions
       placeBuilding: (definitionId, position, rotation) => {
         const state = get()
@@ -218,7 +465,7 @@ export const useCityStore = create<CityStore>()(
           for (let dz = 0; dz < definition.size.depth; dz++) {
             const checkPos = { x: position.x + dx, z: position.z + dz }
             const tile = state.getTile(checkPos)
-            if (!tile || tile.buildingId || tile.roadId) return null
+            if (!tile || tile.buildingId || tile.roadId || tile.type === 'rubble' || !isBuildable(tile)) return null
           }
         }
         
@@ -317,16 +564,19 @@ export const useCityStore = create<CityStore>()(
         
         // Create building
         const building: Building = {
-          id: generateId(),
+          id: generateEntityId(),
           definitionId,
           position,
           rotation: finalRotation,
-          level: 1,
+          level: definition.level ?? 1,
           occupancy: 0,
           condition: 100,
           isActive: true,
           isPowered: false,
           hasWater: false,
+          hasRoadAccess: getRoadNetwork().hasRoadAccess(position),
+          abandoned: false,
+          builtAt: useGameStore.getState().gameTime.totalMinutes,
           createdAt: Date.now(),
           lastUpdate: Date.now(),
         }
@@ -393,6 +643,79 @@ export const useCityStore = create<CityStore>()(
         setTimeout(() => get().calculateUtilities(), 0)
       },
       
+      burnDown: (buildingId) => {
+        const state = get()
+        const building = state.buildings.get(buildingId)
+        const definition = building && state.getBuildingDefinition(building.definitionId)
+        if (!building || !definition) return
+        
+        const buildings = new Map(state.buildings)
+        buildings.delete(buildingId)
+        
+        // The lot stays blocked by rubble until it is bulldozed
+        const tiles = new Map(state.tiles)
+        for (let dx = 0; dx < definition.size.width; dx++) {
+          for (let dz = 0; dz < definition.size.depth; dz++) {
+            const key = gridPositionToKey({ x: building.position.x + dx, z: building.position.z + dz })
+            const tile = tiles.get(key)
+            if (tile) {
+              tiles.set(key, { ...tile, type: 'rubble', buildingId: null, fire: 0, garbage: 0 })
+            }
+          }
+        }
+        
+        set({ buildings, tiles })
+        setTimeout(() => get().calculateUtilities(), 0)
+      },
+      
+      replaceBuilding: (buildingId, definitionId) => {
+        const state = get()
+        const building = state.buildings.get(buildingId)
+        const definition = state.getBuildingDefinition(definitionId)
+        if (!building || !definition) return
+        
+        // Tiers share a footprint, so the lot and tiles stay as they are
+        const buildings = new Map(state.buildings)
+        buildings.set(buildingId, {
+          ...building,
+          definitionId,
+          level: definition.level ?? 1,
+          lastUpdate: Date.now(),
+        })
+        
+        set({ buildings })
+        setTimeout(() => get().calculateUtilities(), 0)
+      },
+      
+      setAbandoned: (buildingId, abandoned) => {
+        const state = get()
+        const building = state.buildings.get(buildingId)
+        if (!building) return
+        
+        const buildings = new Map(state.buildings)
+        buildings.set(buildingId, {
+          ...building,
+          abandoned,
+          occupancy: abandoned ? 0 : building.occupancy,
+          // Redeveloped lots are rebuilt from scratch
+          condition: abandoned ? building.condition : 100,
+          builtAt: abandoned ? building.builtAt : useGameStore.getState().gameTime.totalMinutes,
+          lastUpdate: Date.now(),
+        })
+        
+        set({ buildings })
+      },
+      
+      updateBuildings: (updates) => {
+        if (updates.size === 0) return
+        const buildings = new Map(get().buildings)
+        updates.forEach((data, id) => {
+          const building = buildings.get(id)
+          if (building) buildings.set(id, { ...building, ...data })
+        })
+        set({ buildings })
+      },
+      
       getBuildingAt: (position) => {
         const tile = get().getTile(position)
         if (!tile?.buildingId) return undefined
@@ -404,99 +727,109 @@ export const useCityStore = create<CityStore>()(
       },
       
       // Road Actions
-      placeRoad: (position) => {
+      placeRoad: (position, type = 'road') => {
+        const placed = get().placeRoads([position], type)
+        return placed?.[0] ?? null
+      },
+      
+      planRoads: (path, type = 'road') => {
         const state = get()
-        const tile = state.getTile(position)
-        if (!tile || tile.buildingId || tile.roadId) return null
+        const newTiles: GridPosition[] = []
+        const blocked: GridPosition[] = []
+        const seen = new Set<string>()
         
-        const roadCost = 10
-        if (state.economy.balance < roadCost) return null
+        path.forEach(position => {
+          const key = gridPositionToKey(position)
+          if (seen.has(key)) return
+          seen.add(key)
+          
+          const tile = state.tiles.get(key)
+          if (!tile || tile.buildingId || tile.type === 'rubble') {
+            blocked.push(position)
+          } else if (tile.roadId) {
+            // Existing road tiles are joined for free
+          } else if ((type === 'bridge') !== (tile.type === 'water')) {
+            // Bridges only span water, and nothing else is built on it
+            blocked.push(position)
+          } else if ((type === 'tunnel') !== (tile.elevation > 0)) {
+            // Tunnels run under raised ground, and other roads can't climb it
+            blocked.push(position)
+          } else {
+            newTiles.push(position)
+          }
+        })
         
-        const roadId = generateId()
+        return { type, path, newTiles, blocked, cost: newTiles.length * ROAD_CLASSES[type].cost }
+      },
+      
+      placeRoads: (path, type = 'road') => {
+        const state = get()
+        const plan = state.planRoads(path, type)
         
-        // Helper to get neighbor road
-        const getNeighborRoadId = (x: number, z: number) => {
-          const t = state.getTile({ x, z })
-          return t?.roadId
-        }
-
-        // Check neighbors
-        const neighbors = {
-          north: getNeighborRoadId(position.x, position.z - 1),
-          south: getNeighborRoadId(position.x, position.z + 1),
-          east: getNeighborRoadId(position.x + 1, position.z),
-          west: getNeighborRoadId(position.x - 1, position.z),
-        }
+        // The whole stroke is built or nothing is
+        if (plan.blocked.length > 0 || plan.newTiles.length === 0) return null
+        if (state.economy.balance < plan.cost) return null
         
-        const newConnections: RoadConnection[] = []
-        const roadsToUpdate = new Map<string, Road>()
+        const tiles = new Map(state.tiles)
         const roads = new Map(state.roads)
-
-        // Process neighbors
-        Object.entries(neighbors).forEach(([dir, neighborId]) => {
-          if (neighborId) {
-            const neighborRoad = roads.get(neighborId)
-            if (neighborRoad) {
-              // Add neighbor to new road's connections
-              newConnections.push({ 
-                direction: dir as Direction, 
-                connectedTo: neighborId 
-              })
-
-              // Add new road to neighbor's connections
-              // Calculate opposite direction
-              const oppositeDir: Direction = 
-                dir === 'north' ? 'south' :
-                dir === 'south' ? 'north' :
-                dir === 'east' ? 'west' : 'east'
-              
-              if (!neighborRoad.connections.some(c => c.connectedTo === roadId)) {
-                 // Clone neighbor to update
-                 const updatedNeighbor: Road = {
-                   ...neighborRoad,
-                   connections: [
-                     ...neighborRoad.connections.map(c => ({
-                       direction: c.direction,
-                       connectedTo: c.connectedTo
-                     })),
-                     { 
-                       direction: oppositeDir, 
-                       connectedTo: roadId 
-                     }
-                   ]
-                 }
-                 roads.set(neighborId, updatedNeighbor)
-                 roadsToUpdate.set(neighborId, updatedNeighbor)
-              }
-            }
+        const placed: Road[] = []
+        
+        plan.newTiles.forEach(position => {
+          const key = gridPositionToKey(position)
+          const road: Road = {
+            id: generateEntityId(),
+            position,
+            type,
+            connections: [],
+            trafficLoad: 0,
           }
+          
+          // Connect to neighboring roads, including ones placed earlier in this stroke
+          const neighbors: [Direction, GridPosition][] = [
+            ['north', { x: position.x, z: position.z - 1 }],
+            ['south', { x: position.x, z: position.z + 1 }],
+            ['east', { x: position.x + 1, z: position.z }],
+            ['west', { x: position.x - 1, z: position.z }],
+          ]
+          
+          neighbors.forEach(([dir, neighborPos]) => {
+            const neighborId = tiles.get(gridPositionToKey(neighborPos))?.roadId
+            const neighborRoad = neighborId ? roads.get(neighborId) : undefined
+            if (!neighborRoad) return
+            
+            road.connections.push({ direction: dir, connectedTo: neighborRoad.id })
+            
+            const oppositeDir: Direction = 
+              dir === 'north' ? 'south' :
+              dir === 'south' ? 'north' :
+              dir === 'east' ? 'west' : 'east'
+            
+            roads.set(neighborRoad.id, {
+              ...neighborRoad,
+              connections: [
+                ...neighborRoad.connections.map(c => ({ ...c })),
+                { direction: oppositeDir, connectedTo: road.id },
+              ],
+            })
+          })
+          
+          roads.set(road.id, road)
+          const tile = tiles.get(key)!
+          tiles.set(key, { ...tile, type: tile.type === 'water' ? 'water' : 'road', roadId: road.id })
+          placed.push(road)
         })
-
-        const road: Road = {
-          id: roadId,
-          position,
-          type: 'road',
-          connections: newConnections,
-          trafficLoad: 0,
-        }
-        
-        // Update state
-        roads.set(road.id, road)
-        
-        const tiles = new Map(state.tiles)
-        const key = gridPositionToKey(position)
-        tiles.set(key, { ...tile, type: 'road', roadId: road.id })
         
         set({
           roads,
           tiles,
           economy: {
             ...state.economy,
-            balance: state.economy.balance - roadCost,
+            balance: state.economy.balance - plan.cost,
           },
         })
         
-        return road
+        placed.forEach(road => GameEvents.roadPlaced({ roadId: road.id, position: road.position }))
+        return placed
       },
       
       removeRoad: (roadId) => {
@@ -526,10 +859,11 @@ export const useCityStore = create<CityStore>()(
         const key = gridPositionToKey(road.position)
         const tile = tiles.get(key)
         if (tile) {
-          tiles.set(key, { ...tile, type: 'empty', roadId: null })
+          tiles.set(key, { ...tile, type: tile.type === 'water' ? 'water' : 'empty', roadId: null })
         }
         
         set({ roads, tiles })
+        GameEvents.roadRemoved({ roadId, position: road.position })
       },
       
       getRoadAt: (position) => {
@@ -538,11 +872,142 @@ export const useCityStore = create<CityStore>()(
         return get().roads.get(tile.roadId)
       },
       
+      // Pipe Actions
+      planPipes: (path) => {
+        const state = get()
+        const newTiles: GridPosition[] = []
+        const blocked: GridPosition[] = []
+        const seen = new Set<string>()
+        
+        path.forEach(position => {
+          const key = gridPositionToKey(position)
+          if (seen.has(key)) return
+          seen.add(key)
+          
+          // Pipes run under anything except open water
+          const tile = state.tiles.get(key)
+          if (!tile || tile.type === 'water') {
+            blocked.push(position)
+          } else if (!tile.pipe) {
+            newTiles.push(position)
+          }
+        })
+        
+        return { path, newTiles, blocked, cost: newTiles.length * PIPE_COST }
+      },
+      
+      placePipes: (path) => {
+        const state = get()
+        const plan = state.planPipes(path)
+        
+        // The whole stroke is laid or nothing is
+        if (plan.blocked.length > 0 || plan.newTiles.length === 0) return null
+        if (state.economy.balance < plan.cost) return null
+        
+        const tiles = new Map(state.tiles)
+        plan.newTiles.forEach(position => {
+          const key = gridPositionToKey(position)
+          tiles.set(key, { ...tiles.get(key)!, pipe: true })
+        })
+        
+        set({
+          tiles,
+          economy: {
+            ...state.economy,
+            balance: state.economy.balance - plan.cost,
+          },
+        })
+        
+        setTimeout(() => get().calculateUtilities(), 0)
+        return plan.newTiles
+      },
+      
+      removePipes: (path) => {
+        const state = get()
+        const tiles = new Map(state.tiles)
+        let removed = 0
+        
+        path.forEach(position => {
+          const key = gridPositionToKey(position)
+          const tile = tiles.get(key)
+          if (!tile?.pipe) return
+          tiles.set(key, { ...tile, pipe: false })
+          removed++
+        })
+        
+        if (removed === 0) return 0
+        set({ tiles })
+        
+        setTimeout(() => get().calculateUtilities(), 0)
+        return removed
+      },
+      
+      // Demolition Actions
+      planBulldoze: (positions) => {
+        const state = get()
+        const buildingIds = new Set<string>()
+        const roadIds = new Set<string>()
+        const rubble: GridPosition[] = []
+        
+        positions.forEach(position => {
+          const tile = state.getTile(position)
+          if (tile?.buildingId) buildingIds.add(tile.buildingId)
+          if (tile?.roadId) roadIds.add(tile.roadId)
+          if (tile?.type === 'rubble') rubble.push(position)
+        })
+        
+        let refund = 0
+        let clearedTiles = roadIds.size + rubble.length
+        
+        roadIds.forEach(id => {
+          const road = state.roads.get(id)
+          if (road) refund += ROAD_CLASSES[road.type].cost * DEMOLISH_REFUND_RATE
+        })
+        
+        // Buildings reaching outside the area are removed whole
+        buildingIds.forEach(id => {
+          const building = state.buildings.get(id)
+          const definition = building && state.getBuildingDefinition(building.definitionId)
+          if (!definition) return
+          refund += definition.cost * DEMOLISH_REFUND_RATE
+          clearedTiles += definition.size.width * definition.size.depth
+        })
+        
+        return {
+          positions,
+          buildingIds: Array.from(buildingIds),
+          roadIds: Array.from(roadIds),
+          rubble,
+          refund: Math.floor(refund),
+          cost: clearedTiles * DEMOLISH_COST,
+        }
+      },
+      
+      bulldoze: (positions) => {
+        const plan = get().planBulldoze(positions)
+        if (plan.buildingIds.length === 0 && plan.roadIds.length === 0 && plan.rubble.length === 0) return null
+        if (get().economy.balance + plan.refund < plan.cost) return null
+        
+        plan.buildingIds.forEach(id => get().removeBuilding(id))
+        plan.roadIds.forEach(id => get().removeRoad(id))
+        if (plan.rubble.length > 0) {
+          const tiles = new Map(get().tiles)
+          plan.rubble.forEach(position => {
+            const key = gridPositionToKey(position)
+            tiles.set(key, { ...tiles.get(key)!, type: 'empty' })
+          })
+          set({ tiles })
+        }
+        get().updateBalance(plan.refund - plan.cost)
+        
+        return plan
+      },
+      
       // Zone Actions
       setZone: (position, zone) => {
         const state = get()
         const tile = state.getTile(position)
-        if (!tile || tile.buildingId || tile.roadId) return
+        if (!tile || tile.buildingId || tile.roadId || !isBuildable(tile)) return
         
         const tiles = new Map(state.tiles)
         const key = gridPositionToKey(position)
@@ -551,6 +1016,29 @@ export const useCityStore = create<CityStore>()(
         set({ tiles })
       },
       
+      planZones: (positions, zone) => {
+        const state = get()
+        return positions.filter(position => {
+          const tile = state.getTile(position)
+          return tile && !tile.buildingId && !tile.roadId && isBuildable(tile) && tile.zone !== zone
+        })
+      },
+      
+      setZones: (positions, zone) => {
+        const state = get()
+        const eligible = state.planZones(positions, zone)
+        if (eligible.length === 0) return 0
+        
+        const tiles = new Map(state.tiles)
+        eligible.forEach(position => {
+          const key = gridPositionToKey(position)
+          tiles.set(key, { ...tiles.get(key)!, zone })
+        })
+        
+        set({ tiles })
+        return eligible.length
+      },
+      
       getZoneAt: (position) => {
         const tile = get().getTile(position)
         return tile?.zone || null
@@ -578,6 +1066,15 @@ export const useCityStore = create<CityStore>()(
         }))
       },
       
+      setMaintenanceFunding: (funding) => {
+        set((state) => ({
+          economy: {
+            ...state.economy,
+            maintenanceFunding: funding,
+          },
+        }))
+      },
+      
       // Population Actions
       updatePopulation: (delta) => {
         set((state) => ({
@@ -597,16 +1094,43 @@ export const useCityStore = create<CityStore>()(
         }))
       },
       
+      // Zone Demand Actions
+      updateZoneDemand: (updates) => {
+        set((state) => ({
+          zoneDemand: {
+            ...state.zoneDemand,
+            ...updates,
+          },
+        }))
+      },
+      
+      // Services Actions
+      updateServices: (services) => {
+        set({ services })
+      },
+      
+      updateCrime: (crime) => {
+        set({ crime })
+      },
+      
+      updateWaste: (waste) => {
+        set({ waste })
+      },
+      
+      updatePollution: (pollution) => {
+        set({ pollution })
+      },
+      
       // Save/Load
-      save: () => {
+      snapshot: () => {
         const state = get()
         
         const saveData: SaveData = {
           version: SAVE_VERSION,
           timestamp: Date.now(),
           cityName: state.cityName,
-          gameTime: { day: 1, hour: 8, minute: 0, totalMinutes: 0, speed: 'normal', isDaytime: true },
-          tiles: Array.from(state.tiles.values()),
+          gameTime: { ...useGameStore.getState().gameTime },
+          tiles: Array.from(state.tiles.values()).map(t => ({ ...t })),
           buildings: Array.from(state.buildings.values()).map(b => ({
             id: b.id,
             type: b.definitionId,
@@ -614,198 +1138,113 @@ export const useCityStore = create<CityStore>()(
             rotation: b.rotation,
             level: b.level,
             occupancy: b.occupancy,
+            condition: b.condition,
+            isActive: b.isActive,
+            isPowered: b.isPowered,
+            hasWater: b.hasWater,
+            hasRoadAccess: b.hasRoadAccess,
+            abandoned: b.abandoned,
+            builtAt: b.builtAt,
+            createdAt: b.createdAt,
+            lastUpdate: b.lastUpdate,
           })),
           roads: Array.from(state.roads.values()).map(r => ({
             id: r.id,
             position: r.position,
-            connections: r.connections.map(c => c.connectedTo ? keyToGridPosition(c.connectedTo) : r.position),
+            connections: r.connections.map(c => ({ ...c })),
             type: r.type,
+            trafficLoad: r.trafficLoad,
           })),
           economy: {
-            balance: state.economy.balance,
-            income: state.economy.income,
-            expenses: state.economy.expenses,
-            taxRates: state.economy.taxRates,
+            ...state.economy,
+            taxRates: { ...state.economy.taxRates },
+            taxIncome: { ...state.economy.taxIncome },
+            serviceExpenses: { ...state.economy.serviceExpenses },
+            history: state.economy.history.map(h => ({ ...h })),
           },
           population: {
-            total: state.population.total,
-            employed: state.population.employed,
-            unemployed: state.population.unemployed,
-            happiness: state.population.happiness,
+            ...state.population,
+            demographics: { ...state.population.demographics },
           },
+          zoneDemand: { ...state.zoneDemand },
+          rng: getRandom().serialize(),
+          systems: SimulationManager.getInstance().serialize(),
         }
         
-        localStorage.setItem(STORAGE_KEYS.SAVE_DATA, JSON.stringify(saveData))
         return saveData
       },
       
-      load: (data) => {
-        const tiles = new Map<string, TileData>()
-        data.tiles.forEach(tile => {
-          tiles.set(gridPositionToKey(tile.position), tile)
-        })
-        
-        const buildings = new Map<string, Building>()
-        data.buildings.forEach(b => {
-          buildings.set(b.id, {
-            id: b.id,
-            definitionId: b.type,
-            position: b.position,
-            rotation: b.rotation,
-            level: b.level,
-            occupancy: b.occupancy,
-            condition: 100,
-            isActive: true,
-            isPowered: false,
-            hasWater: false,
-            createdAt: Date.now(),
-            lastUpdate: Date.now(),
-          })
-        })
-        
-        const roads = new Map<string, Road>()
-        data.roads.forEach(r => {
-          roads.set(r.id, {
-            id: r.id,
-            position: r.position,
-            type: r.type as 'road',
-            connections: [],
-            trafficLoad: 0,
-          })
-        })
+      load: (raw) => {
+        // Upgrade older saves; throws SaveDataError on invalid data
+        const data = migrateSaveData(raw)
+        getRandom().deserialize(data.rng)
+        // Before the city, so the persisted copy of it carries the loaded clock
+        useGameStore.getState().setGameTime(data.gameTime)
+        persistBlocked = false
         
         set({
-          cityName: data.cityName,
-          tiles,
-          buildings,
-          roads,
-          economy: {
-            ...initialEconomy,
-            balance: data.economy.balance,
-            income: data.economy.income,
-            expenses: data.economy.expenses,
-            taxRates: data.economy.taxRates,
-          },
-          population: {
-            ...initialPopulation,
-            total: data.population.total,
-            employed: data.population.employed,
-            unemployed: data.population.unemployed,
-            happiness: data.population.happiness,
-          },
+          ...fromSaveData(data),
+          power: EMPTY_POWER_STATE,
+          water: EMPTY_WATER_STATE,
+          services: EMPTY_COVERAGE,
+          crime: EMPTY_CRIME_STATE,
+          waste: EMPTY_WASTE_STATE,
+          pollution: EMPTY_POLLUTION_STATE,
         })
+        
+        // Systems missing from the save start fresh instead of keeping the previous city's state
+        SimulationManager.getInstance().reset()
+        SimulationManager.getInstance().deserialize(data.systems)
+        getCommandHistory().clear()
       },
       
       reset: () => {
-        const tiles = new Map<string, TileData>()
-        for (let x = 0; x < GRID_SIZE; x++) {
-          for (let z = 0; z < GRID_SIZE; z++) {
-            const key = gridPositionToKey({ x, z })
-            tiles.set(key, createInitialTile(x, z))
-          }
-        }
-        
+        persistBlocked = false
         set({
           cityName: 'Yeni Şehir',
-          tiles,
+          tiles: createGrid(),
           buildings: new Map(),
           roads: new Map(),
           economy: initialEconomy,
           population: initialPopulation,
-          zoneDemand: initialZoneDemand,
+          zoneDemand: { ...initialZoneDemand },
+          power: EMPTY_POWER_STATE,
+          water: EMPTY_WATER_STATE,
+          services: EMPTY_COVERAGE,
+          crime: EMPTY_CRIME_STATE,
+          waste: EMPTY_WASTE_STATE,
+          pollution: EMPTY_POLLUTION_STATE,
         })
+        SimulationManager.getInstance().reset()
+        getCommandHistory().clear()
       },
       
       // Actions - Simulation
       calculateUtilities: () => {
         const state = get()
         const buildings = new Map(state.buildings)
-        const powerSources: Building[] = []
-        const waterSources: Building[] = []
         
-        // Find sources
+        // Update Power: plant output flows through connected buildings and roads
+        const powerGrid = getPowerGrid()
+        const powered = powerGrid.update()
         buildings.forEach(b => {
-           const def = state.getBuildingDefinition(b.definitionId)
-           if (def?.serviceType === 'power') powerSources.push(b)
-           if (def?.serviceType === 'water') waterSources.push(b)
+          b.isPowered = powered.get(b.id) ?? false
         })
         
-        // Helper to check radius
-        const isInRadius = (pos1: GridPosition, pos2: GridPosition, radius: number) => {
-          const dx = pos1.x - pos2.x
-          const dz = pos1.z - pos2.z
-          return Math.sqrt(dx*dx + dz*dz) <= radius
-        }
-        
-        // Reset all statuses
+        // Update Water: powered pumps feed the pipe networks
+        const waterNetwork = getWaterNetwork()
+        const { hasWater } = waterNetwork.update()
         buildings.forEach(b => {
-          b.isPowered = false
-          b.hasWater = false
+          b.hasWater = hasWater.get(b.id) ?? false
         })
         
-        // Update Power
-        powerSources.forEach(source => {
-           const def = state.getBuildingDefinition(source.definitionId)
-           const radius = def?.serviceRadius || 0
-           if (source.isActive) {
-             source.isPowered = true // Source powers itself
-             buildings.forEach(target => {
-               if (isInRadius(source.position, target.position, radius)) {
-                 target.isPowered = true
-               }
-             })
-           }
-        })
-        
-        // Update Water
-        waterSources.forEach(source => {
-           const def = state.getBuildingDefinition(source.definitionId)
-           const radius = def?.serviceRadius || 0
-           if (source.isActive && source.isPowered) { // Water pump needs power!
-             source.hasWater = true // Source has water
-             buildings.forEach(target => {
-               if (isInRadius(source.position, target.position, radius)) {
-                 target.hasWater = true
-               }
-             })
-           }
-        })
-        
-        // Update tiles power/water status for zoning logic
-        // We need to know if a TILE is powered to allow construction
-        // Let's iterate all tiles with zones
-        const tiles = new Map(state.tiles)
-        let tilesChanged = false
-        
-        tiles.forEach(tile => {
-          let isTilePowered = false
-          let isTileWatered = false
-          
-          // Check power
-          for (const source of powerSources) {
-             const def = state.getBuildingDefinition(source.definitionId)
-             if (source.isActive && isInRadius(source.position, tile.position, def?.serviceRadius || 0)) {
-               isTilePowered = true
-               break
-             }
-          }
-          
-          // Check water
-          for (const source of waterSources) {
-             const def = state.getBuildingDefinition(source.definitionId)
-             if (source.isActive && source.isPowered && isInRadius(source.position, tile.position, def?.serviceRadius || 0)) {
-               isTileWatered = true
-               break
-             }
-          }
-          
-          // We don't have isPowered on TileData interface yet, but we can infer it during construction check
-          // Or we can add it to TileData. For now, let's just save it in the building check logic.
-          // Actually, let's just update buildings map since that's what we save.
-          // For Zoning, we will do the check dynamically in growZones.
+        // Update road access; cut-off buildings stop paying taxes and offering jobs
+        const network = getRoadNetwork()
+        buildings.forEach(b => {
+          b.hasRoadAccess = network.hasRoadAccess(b.position)
         })
         
-        set({ buildings })
+        set({ buildings, power: powerGrid.getState(), water: waterNetwork.getState() })
       },
 
       growZones: () => {
@@ -815,7 +1254,7 @@ export const useCityStore = create<CityStore>()(
         // 1. Find valid empty zoned tiles
         const validTiles: TileData[] = []
         tiles.forEach(tile => {
-          if (tile.zone && !tile.buildingId && !tile.roadId) {
+          if (tile.zone && !tile.buildingId && !tile.roadId && tile.type !== 'rubble') {
             validTiles.push(tile)
           }
         })
@@ -823,41 +1262,28 @@ export const useCityStore = create<CityStore>()(
         if (validTiles.length === 0) return
         
         // 2. Shuffle to randomize growth
-        const shuffled = validTiles.sort(() => 0.5 - Math.random())
+        const shuffled = shuffle(validTiles)
         
         // 3. Try to build on a few tiles (limit growth rate)
         let builtCount = 0
         const limit = 3 // Max 3 buildings per tick
         
-        // Recalculate utilities locally to check for new constructions
-        // Actually we should rely on the last calculateUtilities call, 
-        // but we need to check if the EMPTY TILE is in range.
-        const buildings = state.buildings
-        const powerSources: Building[] = []
-        const waterSources: Building[] = []
-        buildings.forEach(b => {
-           const def = state.getBuildingDefinition(b.definitionId)
-           if (def?.serviceType === 'power' && b.isActive) powerSources.push(b)
-           if (def?.serviceType === 'water' && b.isActive && b.isPowered) waterSources.push(b)
-        })
-        
-        const isInRange = (pos: GridPosition, sources: Building[]) => {
-          return sources.some(source => {
-            const def = state.getBuildingDefinition(source.definitionId)
-            const dx = pos.x - source.position.x
-            const dz = pos.z - source.position.z
-            return Math.sqrt(dx*dx + dz*dz) <= (def?.serviceRadius || 0)
-          })
-        }
+        // Rely on the networks from the last calculateUtilities call
+        const powerGrid = getPowerGrid()
+        const waterNetwork = getWaterNetwork()
+        const network = getRoadNetwork()
 
         for (const tile of shuffled) {
           if (builtCount >= limit) break
           
           // CHECK REQUIREMENTS: Power & Water
-          const hasPower = isInRange(tile.position, powerSources)
-          const hasWater = isInRange(tile.position, waterSources)
+          const hasPower = powerGrid.isEnergized(tile.position)
+          const hasWater = waterNetwork.hasSupply(tile.position)
           
           if (!hasPower || !hasWater) continue // Skip if no utilities
+          if (!network.hasRoadAccess(tile.position)) continue // Lots must reach the road network
+          // Polluted lots are less likely to find residents
+          if (tile.zone === 'residential' && !randomChance(getResidentialDesirability(tile))) continue
           
           // Find suitable building
           const candidates = buildingCatalog.filter(b => 
@@ -866,38 +1292,10 @@ export const useCityStore = create<CityStore>()(
             // Let's assume zones build for free for the city, but generate tax
           )
           
-          if (candidates.length > 0) {
-             // Pick random candidate (weighted by level/requirements could be better)
-             const buildingDef = candidates[Math.floor(Math.random() * candidates.length)]
-             
-             // Place it (bypass cost check for auto-growth? No, let's use placeBuilding but mock free cost?
-             // Actually placeBuilding deducts money. We should probably have a separate spawnBuilding function
-             // or just let it be free. Let's manually spawn to avoid cost deduction for private buildings.
-             
-             // ... Or better, standard city builders: Zoning is "private investment", doesn't cost City money.
-             // We need a spawn function that doesn't deduct balance.
-             
-             const building: Building = {
-                id: generateId(),
-                definitionId: buildingDef.id,
-                position: tile.position,
-                rotation: 0,
-                level: 1,
-                occupancy: 0,
-                condition: 100,
-                isActive: true,
-                isPowered: true,
-                hasWater: true,
-                createdAt: Date.now(),
-                lastUpdate: Date.now(),
-             }
-             
-             // Update state directly (dirty but fast)
-             // We need to use store set method properly
-             // Let's define a "spawnBuilding" action to handle this clean up later.
-             // For now, call placeBuilding but refund the cost? Hacky.
-             // Let's just create the building object here and batch update at end.
-             
+          // Higher-value land attracts higher-tier buildings
+          const buildingDef = pickBuildingForLand(candidates, tile.landValue)
+          if (buildingDef) {
+             // Zoned growth is private investment; it costs the city nothing
              state.placeBuildingFree(buildingDef.id, tile.position)
              builtCount++
           }
@@ -910,16 +1308,19 @@ export const useCityStore = create<CityStore>()(
         if (!definition) return
         
         const building: Building = {
-          id: generateId(),
+          id: generateEntityId(),
           definitionId,
           position,
           rotation: 0,
-          level: 1,
+          level: definition.level ?? 1,
           occupancy: 0,
           condition: 100,
           isActive: true,
           isPowered: false, // Will be updated next utility tick
           hasWater: false,
+          hasRoadAccess: getRoadNetwork().hasRoadAccess(position),
+          abandoned: false,
+          builtAt: useGameStore.getState().gameTime.totalMinutes,
           createdAt: Date.now(),
           lastUpdate: Date.now(),
         }
@@ -949,20 +1350,38 @@ export const useCityStore = create<CityStore>()(
       getTotalPopulation: () => get().population.total,
     }),
     {
-      name: STORAGE_KEYS.SAVE_DATA,
+      name: STORAGE_KEYS.CITY_STATE,
+      // Bumped with SAVE_VERSION so older persisted cities are migrated too
+      version: Number(SAVE_VERSION),
+      migrate: migratePersistedCity,
+      merge: mergePersistedCity,
+      onRehydrateStorage: () => (_state, error) => {
+        if (!error) return
+        console.error('[cityStore] Failed to restore city:', error)
+        cancelPersist()
+        persistBlocked = true
+        useUIStore.getState().addNotification({
+          type: 'error',
+          title: 'Şehir Açılamadı',
+          message: 'Kayıtlı şehir yüklenemedi ve korunuyor. Yeni şehir kurmak veya kayıt yüklemek onun yerine geçer.',
+        })
+      },
       partialize: (state) => ({
         cityName: state.cityName,
         economy: state.economy,
         population: state.population,
         zoneDemand: state.zoneDemand,
-        // Convert Maps to arrays for JSON serialization
-        tilesArray: Array.from(state.tiles.entries()),
-        buildingsArray: Array.from(state.buildings.entries()),
-        roadsArray: Array.from(state.roads.entries()),
+        tiles: state.tiles,
+        buildings: state.buildings,
+        roads: state.roads,
+        gameTime: useGameStore.getState().gameTime,
+        systems: SimulationManager.getInstance().serialize(),
       }),
       storage: {
-        getItem: (name) => {
-          const str = localStorage.getItem(name)
+        // Storage is a no-op outside the browser (headless simulation runs)
+        getItem: async (name) => {
+          if (typeof window === 'undefined') return null
+          const str = await getStorage().getItem(name)
           if (!str) return null
           try {
             const parsed = JSON.parse(str)
@@ -972,9 +1391,9 @@ export const useCityStore = create<CityStore>()(
             const buildingsArray = parsed.state?.buildingsArray || []
             const roadsArray = parsed.state?.roadsArray || []
             
-            const tiles = new Map(tilesArray)
-            const buildings = new Map(buildingsArray)
-            const roads = new Map(roadsArray)
+            const tiles = new Map<string, TileData>(tilesArray)
+            const buildings = new Map<string, Building>(buildingsArray)
+            const roads = new Map<string, Road>(roadsArray)
             
             // Remove the array versions from state
             const { tilesArray: _, buildingsArray: __, roadsArray: ___, ...restState } = parsed.state || {}
@@ -987,18 +1406,21 @@ export const useCityStore = create<CityStore>()(
                 roads,
                 buildingCatalog: DEFAULT_BUILDINGS,
               },
+              version: parsed.version,
             }
-          } catch {
-            return null
+          } catch (error) {
+            // Unreadable rather than missing: fail hydration so the city is kept
+            throw new Error(`Stored city is not valid JSON: ${error}`)
           }
         },
         setItem: (name, value) => {
-          // Never save buildingCatalog
-          const { buildingCatalog, ...rest } = value.state || {}
-          localStorage.setItem(name, JSON.stringify({ ...value, state: rest }))
+          if (typeof window === 'undefined') return
+          schedulePersist(name, value)
         },
-        removeItem: (name) => {
-          localStorage.removeItem(name)
+        removeItem: async (name) => {
+          if (typeof window === 'undefined') return
+          cancelPersist()
+          await getStorage().removeItem(name)
         },
       },
     }
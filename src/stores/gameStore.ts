@@ -4,10 +4,12 @@ import {
   GameState,
   GameMode,
   OverlayType,
+  PollutionLayer,
   GridPosition,
   GameTime,
   GameSpeed,
 } from '@/types/game.types'
+import { RoadType } from '@/types/simulation.types'
 import { STORAGE_KEYS, GAME_SPEEDS } from '@/lib/constants'
 
 interface GameStore {
@@ -15,9 +17,12 @@ interface GameStore {
   mode: GameMode
   selectedBuilding: string | null
   selectedZone: 'residential' | 'commercial' | 'industrial' | null
+  selectedRoadType: RoadType
   hoveredTile: GridPosition | null
+  dragStart: GridPosition | null // Start tile of the road or area being dragged
   clickedBuildingId: string | null // Currently clicked building for showing service radius
   overlay: OverlayType
+  pollutionLayer: PollutionLayer // Layer shown in the pollution overlay
   isPlacing: boolean
   rotation: number
   
@@ -33,9 +38,12 @@ interface GameStore {
   setMode: (mode: GameMode) => void
   setSelectedBuilding: (buildingId: string | null) => void
   setSelectedZone: (zone: 'residential' | 'commercial' | 'industrial' | null) => void
+  setSelectedRoadType: (type: RoadType) => void
   setHoveredTile: (position: GridPosition | null) => void
+  setDragStart: (position: GridPosition | null) => void
   setClickedBuilding: (buildingId: string | null) => void
   setOverlay: (overlay: OverlayType) => void
+  setPollutionLayer: (layer: PollutionLayer) => void
   setIsPlacing: (isPlacing: boolean) => void
   rotateBuilding: () => void
   setRotation: (rotation: number) => void
@@ -44,6 +52,7 @@ interface GameStore {
   setGameSpeed: (speed: GameSpeed) => void
   togglePause: () => void
   advanceTime: (minutes: number) => void
+  setGameTime: (gameTime: GameTime) => void
   
   // UI Actions
   toggleGrid: () => void
@@ -62,6 +71,27 @@ const initialGameTime: GameTime = {
   isDaytime: true,
 }
 
+/**
+ * Advance a game clock by the given number of minutes
+ */
+export function advanceGameTime(gameTime: GameTime, minutes: number): GameTime {
+  const totalMinutes = gameTime.totalMinutes + minutes
+  const totalHours = Math.floor(totalMinutes / 60)
+  const hour = totalHours % 24
+  const day = Math.floor(totalHours / 24) + 1
+  const minute = totalMinutes % 60
+  const isDaytime = hour >= 6 && hour < 20
+  
+  return {
+    ...gameTime,
+    totalMinutes,
+    hour,
+    minute,
+    day,
+    isDaytime,
+  }
+}
+
 export const useGameStore = create<GameStore>()(
   persist(
     (set, get) => ({
@@ -69,9 +99,12 @@ export const useGameStore = create<GameStore>()(
       mode: 'build',
       selectedBuilding: null,
       selectedZone: null,
+      selectedRoadType: 'road',
       hoveredTile: null,
+      dragStart: null,
       clickedBuildingId: null,
       overlay: 'none',
+      pollutionLayer: 'air',
       isPlacing: false,
       rotation: 0,
       
@@ -86,6 +119,7 @@ export const useGameStore = create<GameStore>()(
         mode, 
         selectedBuilding: mode !== 'build' ? null : get().selectedBuilding,
         selectedZone: mode !== 'zone' ? null : get().selectedZone,
+        dragStart: null,
         clickedBuildingId: null,
       }),
       
@@ -99,12 +133,21 @@ export const useGameStore = create<GameStore>()(
         mode: zone ? 'zone' : get().mode,
       }),
       
+      setSelectedRoadType: (type) => set({ 
+        selectedRoadType: type,
+        mode: 'road',
+      }),
+      
       setHoveredTile: (position) => set({ hoveredTile: position }),
       
+      setDragStart: (position) => set({ dragStart: position }),
+      
       setClickedBuilding: (buildingId) => set({ clickedBuildingId: buildingId }),
       
       setOverlay: (overlay) => set({ overlay }),
       
+      setPollutionLayer: (pollutionLayer) => set({ pollutionLayer }),
+      
       setIsPlacing: (isPlacing) => set({ isPlacing }),
       
       rotateBuilding: () => set((state) => ({
@@ -127,24 +170,13 @@ export const useGameStore = create<GameStore>()(
         },
       })),
       
-      advanceTime: (minutes) => set((state) => {
-        const totalMinutes = state.gameTime.totalMinutes + minutes
-        const totalHours = Math.floor(totalMinutes / 60)
-        const hour = totalHours % 24
-        const day = Math.floor(totalHours / 24) + 1
-        const minute = totalMinutes % 60
-        const isDaytime = hour >= 6 && hour < 20
-        
-        return {
-          gameTime: {
-            ...state.gameTime,
-            totalMinutes,
-            hour,
-            minute,
-            day,
-            isDaytime,
-          },
-        }
+      advanceTime: (minutes) => set((state) => ({
+        gameTime: advanceGameTime(state.gameTime, minutes),
+      })),
+      
+      setGameTime: (gameTime) => set({
+        gameTime: { ...gameTime },
+        isPaused: gameTime.speed === 'paused',
       }),
       
       // UI Actions
@@ -156,9 +188,12 @@ export const useGameStore = create<GameStore>()(
         mode: 'build',
         selectedBuilding: null,
         selectedZone: null,
+        selectedRoadType: 'road',
         hoveredTile: null,
+        dragStart: null,
         clickedBuildingId: null,
         overlay: 'none',
+        pollutionLayer: 'air',
         isPlacing: false,
         rotation: 0,
         gameTime: initialGameTime,
@@ -172,6 +207,7 @@ export const useGameStore = create<GameStore>()(
       partialize: (state) => ({
         showGrid: state.showGrid,
         overlay: state.overlay,
+        pollutionLayer: state.pollutionLayer,
       }),
     }
   )
@@ -0,0 +1,53 @@
+import { GridPosition, SaveData } from '@/types/game.types'
+import { useCityStore } from '@/stores/cityStore'
+
+function line(from: GridPosition, to: GridPosition): GridPosition[] {
+  const positions: GridPosition[] = []
+  for (let x = from.x; x <= to.x; x++) {
+    for (let z = from.z; z <= to.z; z++) {
+      positions.push({ x, z })
+    }
+  }
+  return positions
+}
+
+/**
+ * Build a small working city through the store's own actions and snapshot it:
+ * a road cross with every zone, utilities and one of each service
+ */
+export function createFixtureSave(): SaveData {
+  const city = () => useCityStore.getState()
+
+  city().reset()
+  city().updateBalance(1_000_000)
+
+  city().placeRoads(line({ x: 5, z: 20 }, { x: 39, z: 20 }))
+  city().placeRoads(line({ x: 22, z: 5 }, { x: 22, z: 39 }), 'avenue')
+  city().placePipes(line({ x: 5, z: 19 }, { x: 39, z: 19 }))
+  city().placePipes(line({ x: 5, z: 21 }, { x: 39, z: 21 }))
+
+  city().setZones(line({ x: 5, z: 21 }, { x: 20, z: 22 }), 'residential')
+  city().setZones(line({ x: 24, z: 19 }, { x: 39, z: 19 }), 'commercial')
+  city().setZones(line({ x: 24, z: 21 }, { x: 39, z: 22 }), 'industrial')
+
+  // Along the north side of the main road
+  const services: [string, GridPosition][] = [
+    ['power_plant', { x: 5, z: 18 }],
+    ['water_tower', { x: 7, z: 19 }],
+    ['sewage_plant', { x: 8, z: 18 }],
+    ['police_station', { x: 10, z: 19 }],
+    ['fire_station', { x: 11, z: 19 }],
+    ['clinic', { x: 12, z: 19 }],
+    ['school', { x: 13, z: 18 }],
+    ['garbage_depot', { x: 15, z: 19 }],
+    ['landfill', { x: 16, z: 18 }],
+  ]
+  services.forEach(([definitionId, position]) => {
+    if (!city().placeBuilding(definitionId, position, 0)) {
+      throw new Error(`Fixture city could not place ${definitionId}`)
+    }
+  })
+
+  city().calculateUtilities()
+  return JSON.parse(JSON.stringify(city().snapshot()))
+}
@@ -1,4 +1,5 @@
 import { GridPosition, ZoneType } from './game.types'
+import { SERVICE_RADIUS } from '@/lib/constants'
 
 // ============================================
 // Building Category Types
@@ -51,8 +52,13 @@ export interface BuildingDefinition {
     population?: number
     budget?: number
     unlocks?: string[]
+    landValue?: number // Minimum land value for zoned growth
   }
   
+  // Density progression of zoned buildings
+  level?: number // Density tier, 1 being the lowest
+  upgradesTo?: string // Next tier on the same footprint
+  
   // Effects
   effects: {
     landValue: number
@@ -65,6 +71,9 @@ export interface BuildingDefinition {
   // Services
   serviceRadius?: number
   serviceType?: ServiceType
+  sewageCapacity?: number // Sewage a treatment plant can clean
+  wasteDisposal?: WasteDisposal // Landfills and incinerators; depots have none
+  garbageCapacity?: number // Garbage a landfill holds, or an incinerator burns per day
 }
 
 // ============================================
@@ -84,8 +93,11 @@ export interface Building {
   isActive: boolean
   isPowered: boolean
   hasWater: boolean
+  hasRoadAccess: boolean
+  abandoned: boolean // Left empty after conditions deteriorated
   
   // Time tracking
+  builtAt: number // Game minute of construction
   createdAt: number
   lastUpdate: number
 }
@@ -103,6 +115,8 @@ export type ServiceType =
   | 'water'
   | 'waste'
 
+export type WasteDisposal = 'landfill' | 'incinerator'
+
 export interface ServiceBuilding extends Building {
   serviceType: ServiceType
   serviceRadius: number
@@ -200,7 +214,6 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
       power: 1000,
       water: -10,
     },
-    serviceRadius: 15,
     serviceType: 'power',
   },
   {
@@ -225,11 +238,255 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
       happiness: 0,
       traffic: 2,
       power: -5,
-      water: 1000, // Provides 1000 water
+      water: 1000, // Pumps 1000 water into connected pipes
     },
-    serviceRadius: 40,
     serviceType: 'water',
   },
+  {
+    id: 'sewage_plant',
+    name: 'Arıtma Tesisi',
+    nameKey: 'building.sewage_plant',
+    category: 'utility',
+    zone: null,
+    modelPath: '/models/industrial/building-c.glb',
+    thumbnailPath: '/sprites/buildings/sewage_plant.png',
+    size: { width: 2, depth: 2 },
+    cost: 1200,
+    maintenanceCost: 60,
+    capacity: 0,
+    jobs: 10,
+    pollution: 10,
+    crimeRate: 0,
+    fireRisk: 2,
+    requirements: {},
+    effects: {
+      landValue: -10,
+      happiness: -2,
+      traffic: 3,
+      power: -30,
+      water: 0,
+    },
+    serviceType: 'water',
+    sewageCapacity: 800,
+  },
+  {
+    id: 'landfill',
+    name: 'Çöp Sahası',
+    nameKey: 'building.landfill',
+    category: 'utility',
+    zone: null,
+    modelPath: '/models/industrial/building-p.glb',
+    thumbnailPath: '/sprites/buildings/landfill.png',
+    size: { width: 2, depth: 2 },
+    cost: 800,
+    maintenanceCost: 30,
+    capacity: 0,
+    jobs: 5,
+    pollution: 25,
+    crimeRate: 0,
+    fireRisk: 3,
+    requirements: {},
+    effects: {
+      landValue: -20,
+      happiness: -5,
+      traffic: 2,
+      power: 0,
+      water: 0,
+    },
+    serviceType: 'waste',
+    wasteDisposal: 'landfill',
+    garbageCapacity: 20000,
+  },
+  {
+    id: 'incinerator',
+    name: 'Çöp Yakma Tesisi',
+    nameKey: 'building.incinerator',
+    category: 'utility',
+    zone: null,
+    modelPath: '/models/industrial/chimney-large.glb',
+    thumbnailPath: '/sprites/buildings/incinerator.png',
+    size: { width: 1, depth: 1 },
+    cost: 2000,
+    maintenanceCost: 90,
+    capacity: 0,
+    jobs: 10,
+    pollution: 40,
+    crimeRate: 0,
+    fireRisk: 4,
+    requirements: { population: 500 },
+    effects: {
+      landValue: -15,
+      happiness: -3,
+      traffic: 3,
+      power: -40,
+      water: -5,
+    },
+    serviceType: 'waste',
+    wasteDisposal: 'incinerator',
+    garbageCapacity: 1500,
+  },
+  {
+    id: 'power_line',
+    name: 'Elektrik Hattı',
+    nameKey: 'building.power_line',
+    category: 'utility',
+    zone: null,
+    modelPath: '/models/industrial/chimney-small.glb',
+    thumbnailPath: '/sprites/buildings/power_line.png',
+    size: { width: 1, depth: 1 },
+    cost: 20,
+    maintenanceCost: 1,
+    capacity: 0,
+    jobs: 0,
+    pollution: 0,
+    crimeRate: 0,
+    fireRisk: 0,
+    requirements: {},
+    effects: {
+      landValue: -2,
+      happiness: 0,
+      traffic: 0,
+      power: 0, // Carries power between grids
+      water: 0,
+    },
+  },
+
+  // Service Buildings
+  {
+    id: 'police_station',
+    name: 'Karakol',
+    nameKey: 'building.police_station',
+    category: 'service',
+    zone: null,
+    modelPath: '/models/commercial/building-e.glb',
+    thumbnailPath: '/sprites/buildings/police_station.png',
+    size: { width: 1, depth: 1 },
+    cost: 600,
+    maintenanceCost: 50,
+    capacity: 0,
+    jobs: 10,
+    pollution: 0,
+    crimeRate: -2,
+    fireRisk: 1,
+    requirements: {},
+    effects: {
+      landValue: 5,
+      happiness: 2,
+      traffic: 3,
+      power: -10,
+      water: -5,
+    },
+    serviceRadius: SERVICE_RADIUS.police,
+    serviceType: 'police',
+  },
+  {
+    id: 'fire_station',
+    name: 'İtfaiye',
+    nameKey: 'building.fire_station',
+    category: 'service',
+    zone: null,
+    modelPath: '/models/commercial/building-g.glb',
+    thumbnailPath: '/sprites/buildings/fire_station.png',
+    size: { width: 1, depth: 1 },
+    cost: 700,
+    maintenanceCost: 55,
+    capacity: 0,
+    jobs: 12,
+    pollution: 0,
+    crimeRate: 0,
+    fireRisk: 0,
+    requirements: {},
+    effects: {
+      landValue: 3,
+      happiness: 2,
+      traffic: 3,
+      power: -10,
+      water: -10,
+    },
+    serviceRadius: SERVICE_RADIUS.fire,
+    serviceType: 'fire',
+  },
+  {
+    id: 'clinic',
+    name: 'Sağlık Ocağı',
+    nameKey: 'building.clinic',
+    category: 'service',
+    zone: null,
+    modelPath: '/models/commercial/building-b.glb',
+    thumbnailPath: '/sprites/buildings/clinic.png',
+    size: { width: 1, depth: 1 },
+    cost: 900,
+    maintenanceCost: 60,
+    capacity: 0,
+    jobs: 15,
+    pollution: 0,
+    crimeRate: 0,
+    fireRisk: 1,
+    requirements: { population: 100 },
+    effects: {
+      landValue: 8,
+      happiness: 4,
+      traffic: 4,
+      power: -15,
+      water: -15,
+    },
+    serviceRadius: SERVICE_RADIUS.health,
+    serviceType: 'health',
+  },
+  {
+    id: 'school',
+    name: 'Okul',
+    nameKey: 'building.school',
+    category: 'service',
+    zone: null,
+    modelPath: '/models/commercial/building-h.glb',
+    thumbnailPath: '/sprites/buildings/school.png',
+    size: { width: 2, depth: 2 },
+    cost: 1000,
+    maintenanceCost: 70,
+    capacity: 0,
+    jobs: 20,
+    pollution: 0,
+    crimeRate: 0,
+    fireRisk: 1,
+    requirements: { population: 100 },
+    effects: {
+      landValue: 10,
+      happiness: 5,
+      traffic: 5,
+      power: -15,
+      water: -10,
+    },
+    serviceRadius: SERVICE_RADIUS.education,
+    serviceType: 'education',
+  },
+  {
+    id: 'garbage_depot',
+    name: 'Çöp Toplama Merkezi',
+    nameKey: 'building.garbage_depot',
+    category: 'service',
+    zone: null,
+    modelPath: '/models/industrial/building-f.glb',
+    thumbnailPath: '/sprites/buildings/garbage_depot.png',
+    size: { width: 1, depth: 1 },
+    cost: 700,
+    maintenanceCost: 45,
+    capacity: 0,
+    jobs: 12,
+    pollution: 5,
+    crimeRate: 0,
+    fireRisk: 1,
+    requirements: {},
+    effects: {
+      landValue: -5,
+      happiness: 0,
+      traffic: 6,
+      power: -10,
+      water: -5,
+    },
+    serviceRadius: SERVICE_RADIUS.waste,
+    serviceType: 'waste',
+  },
 
   // Residential - Kenney Models
   {
@@ -249,6 +506,8 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     crimeRate: 0,
     fireRisk: 1,
     requirements: {},
+    level: 1,
+    upgradesTo: 'building_small_b',
     effects: {
       landValue: 5,
       happiness: 5,
@@ -273,7 +532,9 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     pollution: 0,
     crimeRate: 0,
     fireRisk: 1,
-    requirements: {},
+    requirements: { landValue: 52 },
+    level: 2,
+    upgradesTo: 'building_small_c',
     effects: {
       landValue: 8,
       happiness: 6,
@@ -298,7 +559,9 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     pollution: 0,
     crimeRate: 1,
     fireRisk: 1,
-    requirements: { population: 100 },
+    requirements: { population: 100, landValue: 55 },
+    level: 3,
+    upgradesTo: 'building_small_d',
     effects: {
       landValue: 12,
       happiness: 7,
@@ -323,7 +586,8 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     pollution: 0,
     crimeRate: 1,
     fireRisk: 2,
-    requirements: { population: 300 },
+    requirements: { population: 300, landValue: 65 },
+    level: 4,
     effects: {
       landValue: 15,
       happiness: 6,
@@ -351,6 +615,8 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     crimeRate: 1,
     fireRisk: 2,
     requirements: {},
+    level: 1,
+    upgradesTo: 'commercial_office_a',
     effects: {
       landValue: 5,
       happiness: 2,
@@ -375,7 +641,8 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     pollution: 1,
     crimeRate: 0,
     fireRisk: 1,
-    requirements: { population: 100 },
+    requirements: { population: 100, landValue: 55 },
+    level: 2,
     effects: {
       landValue: 10,
       happiness: 5,
@@ -400,7 +667,8 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     pollution: 5,
     crimeRate: 2,
     fireRisk: 3,
-    requirements: { population: 1000 },
+    requirements: { population: 1000, landValue: 70 },
+    level: 3,
     effects: {
       landValue: 20,
       happiness: 10,
@@ -428,6 +696,7 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     crimeRate: 2,
     fireRisk: 3,
     requirements: {},
+    level: 2,
     effects: {
       landValue: -10,
       happiness: -5,
@@ -453,6 +722,7 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     crimeRate: 3,
     fireRisk: 5,
     requirements: { population: 200 },
+    level: 3,
     effects: {
       landValue: -20,
       happiness: -10,
@@ -478,6 +748,8 @@ export const DEFAULT_BUILDINGS: BuildingDefinition[] = [
     crimeRate: 1,
     fireRisk: 2,
     requirements: {},
+    level: 1,
+    upgradesTo: 'industrial_factory_small',
     effects: {
       landValue: -2,
       happiness: 0,
@@ -1,4 +1,5 @@
 import { Vector3 } from 'three'
+import { EconomyState, PopulationState, RoadConnection, RoadType } from './simulation.types'
 
 // ============================================
 // Core Game Types
@@ -6,9 +7,11 @@ import { Vector3 } from 'three'
 
 export type GameSpeed = 'paused' | 'normal' | 'fast' | 'ultra'
 
-export type GameMode = 'build' | 'demolish' | 'zone' | 'road' | 'view'
+export type GameMode = 'build' | 'demolish' | 'zone' | 'dezone' | 'road' | 'pipe' | 'view'
 
-export type OverlayType = 'none' | 'traffic' | 'pollution' | 'landValue' | 'crime' | 'happiness' | 'services'
+export type OverlayType = 'none' | 'traffic' | 'pollution' | 'landValue' | 'crime' | 'happiness' | 'services' | 'water' | 'garbage'
+
+export type PollutionLayer = 'air' | 'ground' | 'noise'
 
 export interface GameTime {
   day: number
@@ -51,14 +54,41 @@ export interface TileData {
   buildingId: string | null
   roadId: string | null
   zone: ZoneType | null
+  pipe: boolean // Underground water pipe
+  fire: number // Burn progress 0-100, 0 when not burning
+  garbage: number // Uncollected waste 0-100
   elevation: number
   landValue: number
-  pollution: number
+  pollution: number // Air pollution 0-100
+  groundPollution: number // Soil and water pollution 0-100
+  noise: number // 0-100
   crime: number
   traffic: number
 }
 
-export type TileType = 'empty' | 'building' | 'road' | 'water' | 'park' | 'special'
+export type TileType = 'empty' | 'building' | 'road' | 'water' | 'park' | 'special' | 'rubble'
+
+/**
+ * Pipes a drag stroke will lay, checked before it runs
+ */
+export interface PipePlan {
+  path: GridPosition[]
+  newTiles: GridPosition[] // Tiles without a pipe yet
+  blocked: GridPosition[]
+  cost: number
+}
+
+/**
+ * What an area bulldoze will remove, checked before it runs
+ */
+export interface BulldozePlan {
+  positions: GridPosition[]
+  buildingIds: string[]
+  roadIds: string[]
+  rubble: GridPosition[] // Burned-out tiles to clear
+  refund: number // Paid back for the removed buildings and roads
+  cost: number // Demolition fee for the cleared tiles
+}
 
 // ============================================
 // Zoning Types
@@ -120,6 +150,8 @@ export type InputAction =
   | 'rotate_building'
   | 'save'
   | 'load'
+  | 'undo'
+  | 'redo'
 
 // ============================================
 // Simulation System Types
@@ -150,6 +182,20 @@ export interface SaveData {
   roads: SerializedRoad[]
   economy: SerializedEconomy
   population: SerializedPopulation
+  zoneDemand: ZoneDemand
+  rng: SerializedRandom
+  systems: Record<string, unknown>
+}
+
+export interface SaveSlotMeta {
+  id: string
+  name: string
+  cityName: string
+  population: number
+  balance: number
+  day: number
+  timestamp: number
+  thumbnail: string | null // PNG data URL of the minimap
 }
 
 export interface SerializedBuilding {
@@ -159,31 +205,32 @@ export interface SerializedBuilding {
   rotation: number
   level: number
   occupancy: number
+  condition: number
+  isActive: boolean
+  isPowered: boolean
+  hasWater: boolean
+  hasRoadAccess: boolean
+  abandoned: boolean
+  builtAt: number
+  createdAt: number
+  lastUpdate: number
 }
 
 export interface SerializedRoad {
   id: string
   position: GridPosition
-  connections: GridPosition[]
-  type: string
+  connections: RoadConnection[]
+  type: RoadType
+  trafficLoad: number
 }
 
-export interface SerializedEconomy {
-  balance: number
-  income: number
-  expenses: number
-  taxRates: {
-    residential: number
-    commercial: number
-    industrial: number
-  }
-}
+export type SerializedEconomy = EconomyState
+
+export type SerializedPopulation = PopulationState
 
-export interface SerializedPopulation {
-  total: number
-  employed: number
-  unemployed: number
-  happiness: number
+export interface SerializedRandom {
+  seed: number
+  state: number
 }
 
 // ============================================
@@ -202,6 +249,8 @@ export type GameEventType =
   | 'game:saved'
   | 'game:loaded'
   | 'game:reset'
+  | 'history:changed'
+  | 'city:alert'
 
 export interface GameEvent<T = unknown> {
   type: GameEventType
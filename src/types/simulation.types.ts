@@ -1,4 +1,4 @@
-import { GridPosition, ZoneType } from './game.types'
+import { GridPosition, ZoneType, SaveData } from './game.types'
 
 // ============================================
 // Economy Types
@@ -14,6 +14,7 @@ export interface EconomyState {
   
   serviceExpenses: ServiceExpenses
   maintenanceExpenses: number
+  maintenanceFunding: number // Percent of standard building and road upkeep paid
   
   history: EconomyHistoryEntry[]
 }
@@ -169,12 +170,97 @@ export interface WaterServiceState {
   surplus: number
   coverage: number
   buildings: string[]
+  sewage: number // Outflow from connected buildings
+  treatment: number // Capacity of working treatment plants
+  shortages: Map<string, WaterShortage> // building id -> why it has no water
+  contamination: Map<string, number> // water tile key -> untreated sewage reaching it
 }
 
+export type WaterShortage = 'noPipe' | 'noPump' | 'overloaded'
+
 export interface CoverageServiceState {
   coverage: number
   buildings: string[]
   coveredTiles: Set<string>
+  levels: Map<string, number> // tile key -> efficiency 0-1
+}
+
+export type CoverageServiceType = 'police' | 'fire' | 'health' | 'education'
+
+export type CoverageServices = Pick<ServicesState, CoverageServiceType>
+
+// ============================================
+// Crime Types
+// ============================================
+
+export interface CrimeState {
+  average: number // Over developed tiles
+  districts: DistrictCrime[]
+}
+
+export interface DistrictCrime {
+  id: string
+  name: string
+  crime: number // Average over developed tiles
+  buildings: number
+}
+
+// ============================================
+// Fire Types
+// ============================================
+
+export interface FireState {
+  burning: string[] // building ids
+  trucks: FireTruck[]
+}
+
+export interface FireTruck {
+  id: string
+  stationId: string
+  buildingId: string
+  path: GridPosition[]
+  progress: number // Tiles travelled along the path
+  state: FireTruckState
+  timer: number // Minutes spent at the fire
+}
+
+export type FireTruckState = 'responding' | 'extinguishing' | 'returning'
+
+// ============================================
+// Waste Types
+// ============================================
+
+export interface WasteState {
+  production: number // Garbage produced per day
+  uncollected: number // Garbage piled up on lots
+  stockpile: number // Garbage at depots waiting for disposal
+  landfillUsed: number
+  landfillCapacity: number
+  incineration: number // Garbage incinerators can burn per day
+  depots: number // Working garbage depots
+}
+
+export interface GarbageTruck {
+  id: string
+  depotId: string
+  buildingId: string
+  path: GridPosition[]
+  progress: number // Tiles travelled along the path
+  state: GarbageTruckState
+  load: number
+}
+
+export type GarbageTruckState = 'collecting' | 'returning'
+
+// ============================================
+// Pollution Types
+// ============================================
+
+export interface PollutionState {
+  air: number // Averages over developed tiles
+  ground: number
+  noise: number
+  wind: Direction // Where the wind blows toward
 }
 
 // ============================================
@@ -230,6 +316,29 @@ export interface CityStatistics {
   peakBalance: number
 }
 
+// ============================================
+// Headless Simulation Types
+// ============================================
+
+export interface DailyMetrics {
+  day: number
+  population: number
+  employmentRate: number
+  happiness: number
+  balance: number
+  income: number
+  expenses: number
+  buildings: number
+  roads: number
+  demand: ZoneDemand
+}
+
+export interface SimulationRunResult {
+  snapshot: SaveData
+  metrics: DailyMetrics[]
+  minutesSimulated: number
+}
+
 // ============================================
 // Road Types
 // ============================================
@@ -242,7 +351,91 @@ export interface Road {
   trafficLoad: number
 }
 
-export type RoadType = 'road' | 'highway' | 'bridge' | 'tunnel'
+export type RoadType = 'road' | 'avenue' | 'highway' | 'bridge' | 'tunnel'
+
+/**
+ * Build, upkeep and traffic properties of a road class
+ */
+export interface RoadClassDefinition {
+  type: RoadType
+  name: string
+  icon: string
+  cost: number // Per tile
+  maintenanceCost: number // Per tile per day
+  speedLimit: number // km/h
+  lanes: number
+  capacity: number // Vehicles per tile before it counts as congested
+  color: string
+}
+
+export const ROAD_CLASSES: Record<RoadType, RoadClassDefinition> = {
+  road: {
+    type: 'road',
+    name: 'Yol',
+    icon: '🛣️',
+    cost: 10,
+    maintenanceCost: 1,
+    speedLimit: 50,
+    lanes: 2,
+    capacity: 3,
+    color: '#4a5568',
+  },
+  avenue: {
+    type: 'avenue',
+    name: 'Cadde',
+    icon: '🚦',
+    cost: 25,
+    maintenanceCost: 2,
+    speedLimit: 70,
+    lanes: 4,
+    capacity: 6,
+    color: '#718096',
+  },
+  highway: {
+    type: 'highway',
+    name: 'Otoyol',
+    icon: '🛤️',
+    cost: 60,
+    maintenanceCost: 5,
+    speedLimit: 110,
+    lanes: 6,
+    capacity: 10,
+    color: '#2b6cb0',
+  },
+  bridge: {
+    type: 'bridge',
+    name: 'Köprü',
+    icon: '🌉',
+    cost: 120,
+    maintenanceCost: 8,
+    speedLimit: 70,
+    lanes: 4,
+    capacity: 6,
+    color: '#a0aec0',
+  },
+  tunnel: {
+    type: 'tunnel',
+    name: 'Tünel',
+    icon: '🚇',
+    cost: 200,
+    maintenanceCost: 10,
+    speedLimit: 90,
+    lanes: 4,
+    capacity: 6,
+    color: '#1a202c',
+  },
+}
+
+/**
+ * A road stroke checked before it is built
+ */
+export interface RoadPlan {
+  type: RoadType
+  path: GridPosition[]
+  newTiles: GridPosition[] // Tiles that get a new road; existing road tiles are joined
+  blocked: GridPosition[]
+  cost: number
+}
 
 export interface RoadConnection {
   direction: Direction
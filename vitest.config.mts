@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    // Same alias as tsconfig paths
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    // Simulation runs headless, without a DOM
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+})